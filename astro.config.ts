@@ -6,7 +6,10 @@ import { defineConfig } from "astro/config";
 // https://astro.build/config
 export default defineConfig({
   base: "/astro-snowfall",
-  integrations: [react(), sitemap()],
+  integrations: [
+    react(),
+    sitemap({ filter: (page) => !page.includes("/benchmark") }),
+  ],
   site: "https://fermeridamagni.github.io",
   vite: {
     plugins: [tailwindcss()],
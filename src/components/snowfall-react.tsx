@@ -0,0 +1,76 @@
+/**
+ * Snowfall Component for React - Canvas-based snowfall background animation
+ *
+ * @example
+ * <Snowfall color="#fff" snowflakeCount={200} speed={[60, 180]} />
+ */
+
+import React from "react";
+import { mountSnowfall, type SnowfallController } from "../lib/snowfall/mount";
+import type { SnowfallCanvasConfig } from "../lib/snowfall/types";
+
+interface SnowfallProps extends SnowfallCanvasConfig {
+  /**
+   * CSS class name for the element wrapping the canvas
+   */
+  className?: string;
+
+  /**
+   * Id of the canvas element, used to look the instance up with
+   * `getSnowfall`. Changing it remounts the snowfall.
+   */
+  id?: string;
+
+  /**
+   * CSS styles for the element wrapping the canvas, which fills it
+   */
+  style?: React.CSSProperties;
+}
+
+function Snowfall({ className, id, style, ...config }: SnowfallProps) {
+  const containerRef = React.useRef<HTMLDivElement>(null);
+  const controllerRef = React.useRef<SnowfallController | null>(null);
+  const configRef = React.useRef(config);
+
+  // Mount on a new canvas each time: rendering in a worker takes over a
+  // canvas for good, so it cannot be reused (e.g. by StrictMode remounts)
+  React.useEffect(() => {
+    const container = containerRef.current;
+
+    if (!container) {
+      return;
+    }
+
+    const canvas = document.createElement("canvas");
+    canvas.id = id ?? "";
+    canvas.style.display = "block";
+    canvas.style.width = "100%";
+    canvas.style.height = "100%";
+    container.append(canvas);
+
+    const controller = mountSnowfall(canvas, configRef.current);
+    controllerRef.current = controller;
+
+    return () => {
+      controllerRef.current = null;
+      controller.destroy();
+      canvas.remove();
+    };
+  }, [id]);
+
+  // Pass changed props to `updateConfig` instead of remounting
+  React.useEffect(() => {
+    configRef.current = config;
+    controllerRef.current?.update(config);
+  });
+
+  return (
+    <div
+      className={className}
+      ref={containerRef}
+      style={{ height: "100%", width: "100%", ...style }}
+    />
+  );
+}
+
+export { Snowfall, type SnowfallProps };
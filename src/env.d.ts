@@ -0,0 +1 @@
+/// <reference types="astro/client" />
@@ -0,0 +1,226 @@
+/**
+ * Accumulation - Height-maps of settled snow along the canvas bottom and on
+ * top of tracked DOM elements
+ */
+
+import type {
+  AccumulationSurface,
+  SnowfallAccumulation,
+  SurfaceRect,
+} from "./types";
+
+/** Share of a flake's area that adds to the pile (snow packs loosely) */
+const PACKING = 0.3;
+
+/**
+ * Resample a height-map to a new number of columns
+ */
+const resample = (heights: Float32Array, columns: number): Float32Array => {
+  const resampled = new Float32Array(columns);
+
+  if (heights.length === 0) {
+    return resampled;
+  }
+
+  for (let index = 0; index < columns; index += 1) {
+    resampled[index] = heights[Math.floor((index * heights.length) / columns)];
+  }
+
+  return resampled;
+};
+
+export class Accumulation {
+  private options: SnowfallAccumulation;
+  private readonly ground: AccumulationSurface;
+  private surfaces: AccumulationSurface[] = [];
+  private allSurfaces: AccumulationSurface[] = [];
+
+  constructor(options: SnowfallAccumulation, width: number, height: number) {
+    this.options = options;
+    this.ground = this.createSurface({ left: 0, top: height, width });
+    this.updateSurfaces();
+  }
+
+  /**
+   * The width in pixels of each height-map column
+   */
+  private get columnWidth(): number {
+    return Math.max(this.options.resolution ?? 4, 1);
+  }
+
+  /**
+   * Create an empty surface for a rect
+   */
+  private createSurface({
+    left,
+    top,
+    width,
+  }: SurfaceRect): AccumulationSurface {
+    return {
+      columnWidth: this.columnWidth,
+      heights: new Float32Array(Math.ceil(width / this.columnWidth)),
+      left,
+      top,
+      width,
+    };
+  }
+
+  /**
+   * Move a surface to a new rect, resampling its heights if the width changed
+   */
+  private moveSurface(
+    surface: AccumulationSurface,
+    { left, top, width }: SurfaceRect
+  ): void {
+    const columns = Math.ceil(width / this.columnWidth);
+
+    if (
+      columns !== surface.heights.length ||
+      surface.columnWidth !== this.columnWidth
+    ) {
+      surface.heights = resample(surface.heights, columns);
+      surface.columnWidth = this.columnWidth;
+    }
+
+    surface.left = left;
+    surface.top = top;
+    surface.width = width;
+  }
+
+  /**
+   * Keep the list of every surface, elements before the ground
+   */
+  private updateSurfaces(): void {
+    this.allSurfaces = [...this.surfaces, this.ground];
+  }
+
+  /**
+   * Add snow to a column, spilling over to neighbours that are much lower
+   */
+  private deposit(
+    surface: AccumulationSurface,
+    column: number,
+    amount: number
+  ): void {
+    const { heights, columnWidth } = surface;
+    const maxDepth = this.options.maxDepth ?? 40;
+
+    heights[column] = Math.min(heights[column] + amount, maxDepth);
+
+    // Slide down slopes steeper than 45 degrees
+    for (const neighbour of [column - 1, column + 1]) {
+      if (neighbour < 0 || neighbour >= heights.length) {
+        continue;
+      }
+
+      const excess = heights[column] - heights[neighbour] - columnWidth;
+
+      if (excess > 0) {
+        heights[column] -= excess / 2;
+        heights[neighbour] += excess / 2;
+      }
+    }
+  }
+
+  /**
+   * Apply new options, e.g. a new resolution or max depth
+   */
+  setOptions(options: SnowfallAccumulation): void {
+    this.options = options;
+    this.moveSurface(this.ground, this.ground);
+
+    for (const surface of this.surfaces) {
+      this.moveSurface(surface, surface);
+    }
+  }
+
+  /**
+   * Resize the ground to the canvas
+   */
+  resize(width: number, height: number): void {
+    this.moveSurface(this.ground, { left: 0, top: height, width });
+  }
+
+  /**
+   * Track element rects in canvas space, keeping the snow on each by index
+   */
+  setSurfaces(rects: readonly SurfaceRect[]): void {
+    this.surfaces = rects.map((rect, index) => {
+      const surface = this.surfaces.at(index);
+
+      if (!surface) {
+        return this.createSurface(rect);
+      }
+
+      this.moveSurface(surface, rect);
+      return surface;
+    });
+    this.updateSurfaces();
+  }
+
+  /**
+   * Settle a snowflake that moved from `previousY` to `y` if it landed on a
+   * surface. The ground catches everything, elements only catch snowflakes
+   * crossing their top.
+   */
+  collect(x: number, previousY: number, y: number, radius: number): boolean {
+    for (const surface of this.allSurfaces) {
+      const { heights, left, top, width, columnWidth } = surface;
+
+      if (x < left || x >= left + width) {
+        continue;
+      }
+
+      const column = Math.floor((x - left) / columnWidth);
+      const surfaceY = top - heights[column];
+      const landed =
+        surface === this.ground
+          ? y + radius >= surfaceY
+          : previousY + radius < surfaceY && y + radius >= surfaceY;
+
+      if (landed) {
+        this.deposit(
+          surface,
+          column,
+          (PACKING * Math.PI * radius * radius) / columnWidth
+        );
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * Melt every surface by `meltRate` pixels per second
+   */
+  melt(dtMs: number): void {
+    const melted = ((this.options.meltRate ?? 0) * dtMs) / 1000;
+
+    if (melted <= 0) {
+      return;
+    }
+
+    for (const { heights } of this.allSurfaces) {
+      for (let index = 0; index < heights.length; index += 1) {
+        heights[index] = Math.max(heights[index] - melted, 0);
+      }
+    }
+  }
+
+  /**
+   * Get every surface, e.g. for rendering
+   */
+  getSurfaces(): readonly AccumulationSurface[] {
+    return this.allSurfaces;
+  }
+
+  /**
+   * Remove all settled snow
+   */
+  clear(): void {
+    for (const { heights } of this.allSurfaces) {
+      heights.fill(0);
+    }
+  }
+}
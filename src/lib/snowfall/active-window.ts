@@ -0,0 +1,127 @@
+/**
+ * Active window - Decides whether snow falls at a given moment, from date
+ * ranges, yearly seasons and times of day in a time zone
+ */
+
+import type { SnowfallActiveWindow, SnowfallTimeRange } from "./types";
+
+/** Check for window changes once a minute, the finest unit it uses */
+const CHECK_INTERVAL = 60_000;
+
+/**
+ * A moment as zero-padded strings, which compare like the moments do
+ */
+interface ZonedMoment {
+  /** `YYYY-MM-DD` */
+  date: string;
+  /** `MM-DD` */
+  day: string;
+  /** `HH:MM` */
+  time: string;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Get a (cached) formatter for a time zone. Throws a `RangeError` for
+ * unknown time zones.
+ */
+const getFormatter = (timeZone = ""): Intl.DateTimeFormat => {
+  let formatter = formatters.get(timeZone);
+
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      day: "2-digit",
+      hour: "2-digit",
+      hourCycle: "h23",
+      minute: "2-digit",
+      month: "2-digit",
+      timeZone: timeZone || undefined,
+      year: "numeric",
+    });
+    formatters.set(timeZone, formatter);
+  }
+
+  return formatter;
+};
+
+/**
+ * Get the date and time of day of a moment in a time zone
+ */
+const getZonedMoment = (date: Date, timeZone?: string): ZonedMoment => {
+  const parts = Object.fromEntries(
+    getFormatter(timeZone)
+      .formatToParts(date)
+      .map(({ type, value }) => [type, value])
+  );
+  const day = `${parts.month}-${parts.day}`;
+
+  return {
+    date: `${parts.year.padStart(4, "0")}-${day}`,
+    day,
+    time: `${parts.hour}:${parts.minute}`,
+  };
+};
+
+/**
+ * Whether a value is within a range, wrapping when it ends before it starts
+ */
+const isInRange = (
+  value: string,
+  { end, start }: SnowfallTimeRange,
+  endInclusive: boolean
+): boolean => {
+  const beforeEnd = endInclusive ? value <= end : value < end;
+  return start <= end
+    ? value >= start && beforeEnd
+    : value >= start || beforeEnd;
+};
+
+/**
+ * Whether snow falls at a moment (now by default). Throws a `RangeError` for
+ * unknown time zones.
+ *
+ * @example
+ * isActiveWindowOpen({ seasons: [{ start: "12-01", end: "01-06" }] });
+ */
+export const isActiveWindowOpen = (
+  { dates, hours, seasons, timeZone }: SnowfallActiveWindow,
+  now = new Date()
+): boolean => {
+  const moment = getZonedMoment(now, timeZone);
+
+  // Without dates or seasons, snow falls on every day
+  const onDay =
+    !(dates?.length || seasons?.length) ||
+    Boolean(dates?.some((range) => isInRange(moment.date, range, true))) ||
+    Boolean(seasons?.some((range) => isInRange(moment.day, range, true)));
+
+  return onDay && (!hours || isInRange(moment.time, hours, false));
+};
+
+/**
+ * Call `onChange` whenever the window opens or closes, checking at the
+ * start of every minute. Returns a function that stops watching.
+ */
+export const watchActiveWindow = (
+  activeWindow: SnowfallActiveWindow,
+  onChange: (open: boolean) => void
+): (() => void) => {
+  let open = isActiveWindowOpen(activeWindow);
+  let timeout: ReturnType<typeof setTimeout> | undefined;
+
+  const check = () => {
+    const isOpen = isActiveWindowOpen(activeWindow);
+
+    if (isOpen !== open) {
+      open = isOpen;
+      onChange(open);
+    }
+
+    timeout = setTimeout(check, CHECK_INTERVAL - (Date.now() % CHECK_INTERVAL));
+  };
+
+  timeout = setTimeout(check, CHECK_INTERVAL - (Date.now() % CHECK_INTERVAL));
+
+  return () => clearTimeout(timeout);
+};
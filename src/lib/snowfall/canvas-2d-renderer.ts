@@ -0,0 +1,505 @@
+/**
+ * Canvas2DRenderer - Draws snowflakes with the 2D canvas context, batching
+ * circles into cached sprites or shared paths for large flake counts
+ */
+
+import { ShapeAtlas } from "./shape-atlas";
+import { getStreak, QUAD_ASPECT, resolveShape } from "./shapes";
+import type { Snowflake } from "./snowflake";
+import { SpriteAtlas } from "./sprite-atlas";
+import type { AccumulatedSnow, Renderer, SnowfallCanvasConfig } from "./types";
+import { degreesToRadians, TWO_PI } from "./utils";
+
+/**
+ * A 2D context from either a DOM canvas or an OffscreenCanvas
+ */
+export type Canvas2DContext =
+  | CanvasRenderingContext2D
+  | OffscreenCanvasRenderingContext2D;
+
+/**
+ * Draw a snowflake as a circle
+ */
+const drawCircle = (ctx: Canvas2DContext, snowflake: Snowflake): void => {
+  const params = snowflake.getParams();
+
+  ctx.save();
+  ctx.globalAlpha = params.opacity;
+  ctx.beginPath();
+  ctx.arc(params.x, params.y, params.radius, 0, TWO_PI);
+  ctx.fillStyle = snowflake.getConfig().color;
+  ctx.closePath();
+  ctx.fill();
+  ctx.restore();
+};
+
+/**
+ * Draw a snowflake as a circle with 3D rotation effect
+ */
+const drawCircle3D = (ctx: Canvas2DContext, snowflake: Snowflake): void => {
+  const params = snowflake.getParams();
+
+  ctx.save();
+  ctx.globalAlpha = params.opacity;
+
+  // Apply 3D transformation
+  ctx.translate(params.x, params.y);
+
+  // Calculate scale based on rotation (perspective effect)
+  const rotX = degreesToRadians(params.rotationX);
+  const rotY = degreesToRadians(params.rotationY);
+  const scaleX = Math.cos(rotY);
+  const scaleY = Math.cos(rotX);
+
+  ctx.scale(scaleX, scaleY);
+
+  ctx.beginPath();
+  ctx.arc(0, 0, params.radius, 0, TWO_PI);
+  ctx.fillStyle = snowflake.getConfig().color;
+  ctx.closePath();
+  ctx.fill();
+
+  ctx.restore();
+};
+
+/**
+ * Draw a snowflake as an image, by default its own at its diameter
+ */
+const drawImage = (
+  ctx: Canvas2DContext,
+  snowflake: Snowflake,
+  image = snowflake.getParams().image,
+  size = snowflake.getParams().radius * 2
+): void => {
+  const params = snowflake.getParams();
+
+  if (!image) {
+    return;
+  }
+
+  ctx.save();
+  ctx.globalAlpha = params.opacity;
+  ctx.translate(params.x, params.y);
+
+  if (snowflake.getConfig().enable3DRotation) {
+    // Apply 3D rotation transformations
+    const rotX = degreesToRadians(params.rotationX);
+    const rotY = degreesToRadians(params.rotationY);
+    const rotZ = degreesToRadians(params.rotationZ);
+
+    // Simple 3D projection
+    const scaleX = Math.cos(rotY) * Math.cos(rotZ);
+    const scaleY = Math.cos(rotX) * Math.cos(rotZ);
+
+    ctx.scale(scaleX, scaleY);
+  } else {
+    // Simple 2D rotation
+    ctx.rotate(degreesToRadians(params.rotation));
+  }
+
+  ctx.drawImage(image, -size / 2, -size / 2, size, size);
+
+  ctx.restore();
+};
+
+/**
+ * Draw a snowflake as a line along its direction of travel
+ */
+const drawStreak = (ctx: Canvas2DContext, snowflake: Snowflake): void => {
+  const params = snowflake.getParams();
+  const { angle, length } = getStreak(params);
+  // Round caps add the radius at both ends
+  const halfLine = length / 2 - params.radius;
+
+  ctx.save();
+  ctx.globalAlpha = params.opacity;
+  ctx.translate(params.x, params.y);
+  ctx.rotate(angle);
+
+  ctx.beginPath();
+  ctx.moveTo(0, -halfLine);
+  ctx.lineTo(0, halfLine);
+  ctx.lineCap = "round";
+  ctx.lineWidth = params.radius * 2;
+  ctx.strokeStyle = snowflake.getConfig().color;
+  ctx.stroke();
+
+  ctx.restore();
+};
+
+/**
+ * Draw a snowflake as a spinning rectangle, tumbling with 3D rotation
+ */
+const drawQuad = (ctx: Canvas2DContext, snowflake: Snowflake): void => {
+  const params = snowflake.getParams();
+  const { radius } = params;
+
+  ctx.save();
+  ctx.globalAlpha = params.opacity;
+  ctx.translate(params.x, params.y);
+  ctx.rotate(degreesToRadians(params.rotation));
+
+  if (snowflake.getConfig().enable3DRotation) {
+    ctx.scale(1, Math.cos(degreesToRadians(params.rotationX)));
+  }
+
+  ctx.fillStyle = snowflake.getConfig().color;
+  ctx.fillRect(
+    -radius,
+    -radius * QUAD_ASPECT,
+    radius * 2,
+    radius * 2 * QUAD_ASPECT
+  );
+
+  ctx.restore();
+};
+
+/**
+ * Draw a crystal or star from its cached bitmap, rotated like an image
+ */
+const drawBitmap = (
+  ctx: Canvas2DContext,
+  snowflake: Snowflake,
+  [shape, design]: ["crystal" | "star", number],
+  shapes: ShapeAtlas
+): void => {
+  const { color, crystalComplexity = 2 } = snowflake.getConfig();
+  const { radius } = snowflake.getParams();
+  const sprite = shapes.getSprite(
+    shape,
+    design,
+    crystalComplexity,
+    color,
+    radius
+  );
+
+  drawImage(
+    ctx,
+    snowflake,
+    sprite.canvas,
+    (radius * sprite.size) / sprite.radius
+  );
+};
+
+/** Bitmaps for `drawSnowflake` calls outside a renderer */
+const sharedShapes = new ShapeAtlas();
+
+/**
+ * Draw a single snowflake to a 2D context
+ */
+export const drawSnowflake = (
+  ctx: Canvas2DContext,
+  snowflake: Snowflake,
+  shapes: ShapeAtlas = sharedShapes
+): void => {
+  const config = snowflake.getConfig();
+  const params = snowflake.getParams();
+  const [shape, design] = resolveShape(config, params);
+
+  if (config.blur) {
+    ctx.save();
+    ctx.filter = `blur(${config.blur}px)`;
+  }
+
+  if (params.image) {
+    drawImage(ctx, snowflake);
+  } else if (shape === "streak") {
+    drawStreak(ctx, snowflake);
+  } else if (shape === "quad") {
+    drawQuad(ctx, snowflake);
+  } else if (shape === "crystal" || shape === "star") {
+    drawBitmap(ctx, snowflake, [shape, design], shapes);
+  } else if (config.enable3DRotation) {
+    drawCircle3D(ctx, snowflake);
+  } else {
+    drawCircle(ctx, snowflake);
+  }
+
+  if (config.blur) {
+    ctx.restore();
+  }
+};
+
+/**
+ * Draw settled snow as one filled outline per surface
+ */
+const drawAccumulation = (
+  ctx: Canvas2DContext,
+  { color, surfaces }: AccumulatedSnow
+): void => {
+  ctx.beginPath();
+
+  for (const { columnWidth, heights, left, top, width } of surfaces) {
+    ctx.moveTo(left, top);
+
+    for (const [index, height] of heights.entries()) {
+      ctx.lineTo(left + (index + 0.5) * columnWidth, top - height);
+    }
+
+    ctx.lineTo(left + width, top);
+    ctx.closePath();
+  }
+
+  ctx.fillStyle = color;
+  ctx.fill();
+};
+
+/**
+ * Opacities are rounded to this many steps so flakes can share draw state
+ */
+const OPACITY_STEPS = 20;
+
+/**
+ * Get the on-screen radii of a circle snowflake, flattened by 3D rotation
+ */
+const getCircleRadii = (snowflake: Snowflake): [number, number] => {
+  const params = snowflake.getParams();
+
+  if (!snowflake.getConfig().enable3DRotation) {
+    return [params.radius, params.radius];
+  }
+
+  return [
+    Math.abs(params.radius * Math.cos(degreesToRadians(params.rotationY))),
+    Math.abs(params.radius * Math.cos(degreesToRadians(params.rotationX))),
+  ];
+};
+
+/**
+ * Options for the Canvas2DRenderer
+ */
+export interface Canvas2DRendererOptions {
+  /**
+   * How draw calls are batched (see `SnowfallCanvasConfig.batching`)
+   * @default 'sprites'
+   */
+  batching?: NonNullable<SnowfallCanvasConfig["batching"]>;
+}
+
+export class Canvas2DRenderer implements Renderer {
+  private readonly canvas: HTMLCanvasElement | OffscreenCanvas;
+  private readonly ctx: Canvas2DContext;
+  private batching: NonNullable<Canvas2DRendererOptions["batching"]>;
+  private readonly atlas = new SpriteAtlas();
+  private readonly shapes = new ShapeAtlas();
+  private readonly opacityGroups: Snowflake[][] = Array.from(
+    { length: OPACITY_STEPS + 1 },
+    () => []
+  );
+  private width: number;
+  private height: number;
+
+  constructor(
+    canvas: HTMLCanvasElement | OffscreenCanvas,
+    options: Canvas2DRendererOptions = {}
+  ) {
+    this.canvas = canvas;
+    const ctx = canvas.getContext("2d");
+
+    if (!ctx) {
+      throw new Error("Could not get 2D context from canvas");
+    }
+
+    this.ctx = ctx as Canvas2DContext;
+    this.batching = options.batching ?? "sprites";
+    this.width = canvas.width;
+    this.height = canvas.height;
+  }
+
+  /**
+   * Sort a run of circles into reused per-opacity groups
+   */
+  private groupCircles(
+    particles: readonly Snowflake[],
+    start: number,
+    end: number
+  ): void {
+    for (const group of this.opacityGroups) {
+      group.length = 0;
+    }
+
+    for (let index = start; index < end; index += 1) {
+      const snowflake = particles[index];
+      const step = Math.round(snowflake.getParams().opacity * OPACITY_STEPS);
+      this.opacityGroups[Math.min(Math.max(step, 0), OPACITY_STEPS)].push(
+        snowflake
+      );
+    }
+  }
+
+  /**
+   * Draw a run of circles, batched per opacity so alpha is only set once
+   * per group
+   */
+  private drawCircles(
+    particles: readonly Snowflake[],
+    start: number,
+    end: number
+  ): void {
+    if (start >= end) {
+      return;
+    }
+
+    this.groupCircles(particles, start, end);
+
+    for (const [step, group] of this.opacityGroups.entries()) {
+      if (group.length === 0) {
+        continue;
+      }
+
+      this.ctx.globalAlpha = step / OPACITY_STEPS;
+
+      if (this.batching === "sprites") {
+        this.drawSprites(group);
+      } else {
+        this.drawPaths(group);
+      }
+    }
+
+    this.ctx.globalAlpha = 1;
+  }
+
+  /**
+   * Draw circles from pre-rasterized sprites
+   */
+  private drawSprites(group: readonly Snowflake[]): void {
+    for (const snowflake of group) {
+      const { x, y, radius } = snowflake.getParams();
+      const { blur, color } = snowflake.getConfig();
+      const [radiusX, radiusY] = getCircleRadii(snowflake);
+      const sprite = this.atlas.getSprite(color, radius, blur);
+      const scale = sprite.size / sprite.radius;
+      const width = radiusX * scale;
+      const height = radiusY * scale;
+
+      this.ctx.drawImage(
+        sprite.canvas,
+        x - width / 2,
+        y - height / 2,
+        width,
+        height
+      );
+    }
+  }
+
+  /**
+   * Fill circles sharing a color and blur as a single path
+   */
+  private drawPaths(group: readonly Snowflake[]): void {
+    let style: string | null = null;
+
+    for (const snowflake of group) {
+      const { x, y } = snowflake.getParams();
+      const { blur = 0, color } = snowflake.getConfig();
+      const [radiusX, radiusY] = getCircleRadii(snowflake);
+      const flakeStyle = `${color}|${blur}`;
+
+      // Flush the path whenever the style changes (e.g. between layers)
+      if (flakeStyle !== style) {
+        if (style !== null) {
+          this.ctx.fill();
+        }
+        style = flakeStyle;
+        this.ctx.fillStyle = color;
+        this.ctx.filter = blur > 0 ? `blur(${blur}px)` : "none";
+        this.ctx.beginPath();
+      }
+
+      this.ctx.moveTo(x + radiusX, y);
+      this.ctx.ellipse(x, y, radiusX, radiusY, 0, 0, TWO_PI);
+    }
+
+    if (style !== null) {
+      this.ctx.fill();
+      this.ctx.filter = "none";
+    }
+  }
+
+  /**
+   * Size the canvas backing store for the pixel ratio and scale the
+   * context so drawing keeps using CSS pixel coordinates
+   */
+  resize(width: number, height: number, pixelRatio: number): void {
+    this.width = width;
+    this.height = height;
+    this.canvas.width = Math.round(width * pixelRatio);
+    this.canvas.height = Math.round(height * pixelRatio);
+    this.ctx.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
+    this.atlas.setPixelRatio(pixelRatio);
+    this.shapes.setPixelRatio(pixelRatio);
+  }
+
+  /**
+   * Clear the canvas
+   */
+  clear(): void {
+    this.ctx.clearRect(0, 0, this.width, this.height);
+  }
+
+  /**
+   * Change how circles are batched from the next frame
+   */
+  setBatching(
+    batching: NonNullable<Canvas2DRendererOptions["batching"]>
+  ): void {
+    this.batching = batching;
+  }
+
+  /**
+   * Render all snowflakes to canvas, with settled snow on top
+   */
+  render(
+    particles: readonly Snowflake[],
+    accumulation?: AccumulatedSnow
+  ): void {
+    this.clear();
+    this.drawParticles(particles);
+
+    if (accumulation) {
+      drawAccumulation(this.ctx, accumulation);
+    }
+  }
+
+  /**
+   * Draw snowflakes with the configured batching
+   */
+  private drawParticles(particles: readonly Snowflake[]): void {
+    if (this.batching === "none") {
+      for (const snowflake of particles) {
+        drawSnowflake(this.ctx, snowflake, this.shapes);
+      }
+      return;
+    }
+
+    // Only consecutive circles of one layer are batched, so layers and
+    // images or shapes between them keep their back-to-front order
+    let start = 0;
+
+    for (const [index, snowflake] of particles.entries()) {
+      const params = snowflake.getParams();
+      const config = snowflake.getConfig();
+      const [shape] = resolveShape(config, params);
+
+      if (params.image || shape !== "circle") {
+        this.drawCircles(particles, start, index);
+        drawSnowflake(this.ctx, snowflake, this.shapes);
+        start = index + 1;
+      } else if (index > start && config !== particles[index - 1].getConfig()) {
+        this.drawCircles(particles, start, index);
+        start = index;
+      }
+    }
+
+    this.drawCircles(particles, start, particles.length);
+  }
+
+  /**
+   * Clear the canvas and reset its transform
+   */
+  destroy(): void {
+    this.clear();
+    this.ctx.setTransform(1, 0, 0, 1, 0, 0);
+    this.atlas.clear();
+    this.shapes.clear();
+  }
+}
@@ -2,21 +2,29 @@
  * Default configuration for snowfall animation
  */
 
-import type { SnowfallCanvasConfig, SnowflakeProps } from "./types";
+import { applyPreset } from "./presets";
+import type {
+  SnowfallCanvasConfig,
+  SnowflakeConfig,
+  SnowflakeProps,
+  SnowflakeRangeProp,
+} from "./types";
+import { lerp, lerpColor, lerpRange, toRange } from "./utils";
 
 /**
  * Default snowflake configuration
  */
 export const defaultSnowflakeConfig: SnowflakeProps = {
-  changeFrequency: 200,
+  changeFrequency: 3000,
   color: "#dee4fd",
+  correlateDepth: false,
   enable3DRotation: false,
   images: undefined,
   opacity: [1, 1],
   radius: [0.5, 3.0],
-  rotationSpeed: [-1.0, 1.0],
-  speed: [1.0, 3.0],
-  wind: [-0.5, 2.0],
+  rotationSpeed: [-60, 60],
+  speed: [60, 180],
+  wind: [-30, 120],
 };
 
 /**
@@ -27,12 +35,118 @@ export const defaultConfig: SnowfallCanvasConfig = {
   snowflakeCount: 150,
 };
 
+const rangeProps: SnowflakeRangeProp[] = [
+  "opacity",
+  "radius",
+  "rotationSpeed",
+  "speed",
+  "wind",
+];
+
+/**
+ * Expand the single-number ranges of a snowflake config into `[min, max]`
+ */
+export const normalizeSnowflakeConfig = <T extends SnowflakeConfig>(
+  config: T
+): T & Partial<Pick<SnowflakeProps, SnowflakeRangeProp>> => {
+  const ranges = rangeProps.flatMap((key) => {
+    const value = config[key];
+    return value === undefined ? [] : [[key, toRange(value)]];
+  });
+
+  return { ...config, ...Object.fromEntries(ranges) };
+};
+
+/**
+ * Expand the single-number ranges of a canvas config and its layers
+ */
+export const normalizeConfig = (
+  config: SnowfallCanvasConfig
+): SnowfallCanvasConfig => {
+  const normalized = normalizeSnowflakeConfig(config);
+  const { layers } = normalized;
+
+  return layers
+    ? { ...normalized, layers: layers.map(normalizeSnowflakeConfig) }
+    : normalized;
+};
+
 /**
- * Merge user config with defaults
+ * Merge user config with defaults, expanding its preset in between and
+ * normalizing its ranges
  */
 export const mergeConfig = (
   userConfig?: SnowfallCanvasConfig
-): SnowfallCanvasConfig => ({
-  ...defaultConfig,
-  ...userConfig,
+): SnowfallCanvasConfig =>
+  normalizeConfig({
+    ...defaultConfig,
+    ...(userConfig && applyPreset(userConfig)),
+  });
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" &&
+  value !== null &&
+  Object.getPrototypeOf(value) === Object.prototype;
+
+/**
+ * Whether two config values are equal, comparing arrays and plain objects
+ * by their contents and anything else (images, functions) by reference
+ */
+const isEqualValue = (a: unknown, b: unknown): boolean => {
+  if (a === b) {
+    return true;
+  }
+
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return (
+      a.length === b.length &&
+      a.every((item, index) => isEqualValue(item, b[index]))
+    );
+  }
+
+  if (!(isPlainObject(a) && isPlainObject(b))) {
+    return false;
+  }
+
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  return [...keys].every((key) => isEqualValue(a[key], b[key]));
+};
+
+/**
+ * Get the options that differ between two full configs, for `updateConfig`.
+ * Options missing from `next` are set to undefined so they reset.
+ */
+export const diffConfig = (
+  previous: SnowfallCanvasConfig,
+  next: SnowfallCanvasConfig
+): SnowfallCanvasConfig => {
+  const keys = new Set([...Object.keys(previous), ...Object.keys(next)]) as Set<
+    keyof SnowfallCanvasConfig
+  >;
+
+  return Object.fromEntries(
+    [...keys]
+      .filter((key) => !isEqualValue(previous[key], next[key]))
+      .map((key) => [key, next[key]])
+  );
+};
+
+/**
+ * Interpolate between two snowflake configs (numeric ranges and colors)
+ */
+export const lerpSnowflakeProps = (
+  from: SnowflakeProps,
+  to: SnowflakeProps,
+  t: number
+): SnowflakeProps => ({
+  ...to,
+  blur: lerp(from.blur ?? 0, to.blur ?? 0, t),
+  changeFrequency: lerp(from.changeFrequency, to.changeFrequency, t),
+  color:
+    from.color === to.color ? to.color : lerpColor(from.color, to.color, t),
+  opacity: lerpRange(from.opacity, to.opacity, t),
+  radius: lerpRange(from.radius, to.radius, t),
+  rotationSpeed: lerpRange(from.rotationSpeed, to.rotationSpeed, t),
+  speed: lerpRange(from.speed, to.speed, t),
+  wind: lerpRange(from.wind, to.wind, t),
 });
@@ -0,0 +1,26 @@
+/**
+ * createRenderer - Picks the renderer for a canvas from the config
+ */
+
+import { Canvas2DRenderer } from "./canvas-2d-renderer";
+import type { Renderer, SnowfallCanvasConfig } from "./types";
+import { supportsWebGL, WebGLRenderer } from "./webgl-renderer";
+
+/**
+ * Create the configured renderer, falling back to the 2D canvas renderer
+ * when WebGL is unavailable
+ */
+export const createRenderer = (
+  canvas: HTMLCanvasElement | OffscreenCanvas,
+  config: SnowfallCanvasConfig
+): Renderer => {
+  if (config.renderer === "webgl" && supportsWebGL()) {
+    try {
+      return new WebGLRenderer(canvas);
+    } catch (err) {
+      console.warn("Falling back to 2D rendering:", err);
+    }
+  }
+
+  return new Canvas2DRenderer(canvas, { batching: config.batching });
+};
@@ -0,0 +1,14 @@
+/**
+ * Standalone entry - Defines the `<snow-fall>` custom element on import
+ *
+ * @example
+ * <script type="module" src="/element/snow-fall.js"></script>
+ * <snow-fall snowflake-count="200"></snow-fall>
+ */
+
+import { defineSnowfallElement } from "./snowfall-element";
+
+// biome-ignore lint/performance/noBarrelFile: The entry of the standalone bundle
+export { defineSnowfallElement, SnowfallElement } from "./snowfall-element";
+
+defineSnowfallElement();
@@ -0,0 +1,88 @@
+/**
+ * Image loading helpers for image snowflakes
+ */
+
+import type {
+  SnowflakeImageSource,
+  SnowflakeImageUrl,
+  SnowflakeProps,
+} from "./types";
+
+/**
+ * Check whether an image entry carries weighting/sizing options
+ */
+export const isSnowflakeImageSource = (
+  image: CanvasImageSource | SnowflakeImageSource
+): image is SnowflakeImageSource =>
+  typeof image === "object" && image !== null && "image" in image;
+
+/**
+ * Normalize the `images` config into image sources with options
+ */
+export const normalizeImages = (
+  images: SnowflakeProps["images"]
+): SnowflakeImageSource[] =>
+  (images ?? []).map((image) =>
+    isSnowflakeImageSource(image) ? image : { image }
+  );
+
+/**
+ * Load and decode a single image, converting it to an `ImageBitmap`
+ * when supported so drawing it is cheap. Pass a `crossOrigin` mode when
+ * the image must stay usable as a WebGL texture; a 2D canvas can draw
+ * images from servers without CORS headers.
+ */
+export const loadImage = async (
+  src: string,
+  crossOrigin?: "anonymous" | "use-credentials"
+): Promise<CanvasImageSource> => {
+  const image = new Image();
+  image.decoding = "async";
+  if (crossOrigin) {
+    image.crossOrigin = crossOrigin;
+  }
+  image.src = src;
+
+  await image.decode();
+
+  if (typeof createImageBitmap === "function") {
+    try {
+      return await createImageBitmap(image);
+    } catch {
+      // Fall back to the decoded element (e.g. SVGs without intrinsic size)
+    }
+  }
+
+  return image;
+};
+
+/**
+ * Load all image URLs, skipping (and reporting) the ones that fail
+ */
+export const loadSnowflakeImages = async (
+  imageUrls: (string | SnowflakeImageUrl)[],
+  crossOrigin?: "anonymous" | "use-credentials"
+): Promise<SnowflakeImageSource[]> => {
+  const entries = imageUrls.map((entry) =>
+    typeof entry === "string" ? { src: entry } : entry
+  );
+
+  const results = await Promise.allSettled(
+    entries.map((entry) => loadImage(entry.src, crossOrigin))
+  );
+
+  const images: SnowflakeImageSource[] = [];
+
+  results.forEach((result, index) => {
+    const { src, weight, radius } = entries[index];
+
+    if (result.status === "rejected") {
+      console.warn(`Failed to load snowflake image: ${src}`, result.reason);
+      return;
+    }
+
+    images.push({ image: result.value, radius, weight });
+  });
+
+  return images;
+};
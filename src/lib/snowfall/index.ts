@@ -9,13 +9,95 @@
  */
 
 // biome-ignore lint/performance/noBarrelFile: Not a problem for this use case
-export { defaultConfig, defaultSnowflakeConfig, mergeConfig } from "./config";
+export { Accumulation } from "./accumulation";
+export { isActiveWindowOpen, watchActiveWindow } from "./active-window";
+export type {
+  Canvas2DContext,
+  Canvas2DRendererOptions,
+} from "./canvas-2d-renderer";
+export { Canvas2DRenderer, drawSnowflake } from "./canvas-2d-renderer";
+export {
+  defaultConfig,
+  defaultSnowflakeConfig,
+  diffConfig,
+  mergeConfig,
+  normalizeConfig,
+  normalizeSnowflakeConfig,
+} from "./config";
+export { createRenderer } from "./create-renderer";
+export { loadImage, loadSnowflakeImages } from "./images";
+export { applyInteraction } from "./interaction";
+export { LocalRuntime } from "./local-runtime";
+export type { SnowfallController } from "./mount";
+export { mountSnowfall } from "./mount";
+export { applyPreset, presets } from "./presets";
+export type { SnowfallEventDetail } from "./registry";
+export {
+  destroyAllSnowfalls,
+  destroySnowfall,
+  getAllSnowfalls,
+  getSnowfall,
+  hasSnowfall,
+  registerSnowfall,
+} from "./registry";
+export { ShapeAtlas } from "./shape-atlas";
+export type { Crystal, CrystalSegment, ResolvedShape } from "./shapes";
+export { generateCrystal, resolveShape } from "./shapes";
+export { SnowfallSimulation } from "./simulation";
 export { SnowfallCanvas } from "./snowfall-canvas";
 export { Snowflake } from "./snowflake";
+export type { Sprite } from "./sprite-atlas";
+export { SpriteAtlas } from "./sprite-atlas";
+export type { TimelineSample } from "./timeline";
+export { getTimelineDuration, sampleTimeline } from "./timeline";
 export type {
+  AccumulatedSnow,
+  AccumulationSurface,
+  RangeValue,
+  Renderer,
+  SnowfallAccumulation,
+  SnowfallActiveWindow,
+  SnowfallAdaptiveQuality,
   SnowfallCanvasConfig,
+  SnowfallInteraction,
+  SnowfallKeyframe,
+  SnowfallLayer,
+  SnowfallParallax,
+  SnowfallPointer,
+  SnowfallPreset,
+  SnowfallRuntime,
+  SnowfallStats,
+  SnowfallTimeline,
+  SnowfallTimeRange,
+  SnowfallWindField,
   SnowflakeConfig,
+  SnowflakeImageSource,
+  SnowflakeImageUrl,
   SnowflakeParams,
   SnowflakeProps,
+  SnowflakeRangeProp,
+  SnowflakeShape,
+  SurfaceRect,
 } from "./types";
-export { degreesToRadians, lerp, random, randomElement, TWO_PI } from "./utils";
+export type { RandomSource } from "./utils";
+export {
+  createRandom,
+  degreesToRadians,
+  FRAME_MS,
+  lerp,
+  random,
+  randomElement,
+  TWO_PI,
+  toRange,
+  weightedRandomElement,
+} from "./utils";
+export type {
+  ConfigIssue,
+  ValidateConfigOptions,
+  ValidationResult,
+} from "./validate";
+export { validateConfig } from "./validate";
+export { supportsWebGL, WebGLRenderer } from "./webgl-renderer";
+export { WindField } from "./wind-field";
+export type { SnowfallWorkerMessage } from "./worker-runtime";
+export { supportsWorkerRendering, WorkerRuntime } from "./worker-runtime";
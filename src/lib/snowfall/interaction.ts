@@ -0,0 +1,44 @@
+/**
+ * Interaction - Pointer forces applied to snowflakes
+ */
+
+import type { Snowflake } from "./snowflake";
+import type { SnowfallInteraction, SnowfallPointer } from "./types";
+
+/** Acceleration at the pointer for `repel` and `attract`, in px/s² */
+const PULL = 1800;
+
+/** Share of the pointer velocity passed on by `wake` per second */
+const DRAG = 3;
+
+/**
+ * Push snowflakes within the interaction radius according to the mode,
+ * fading out linearly towards the edge of the radius
+ */
+export const applyInteraction = (
+  particles: readonly Snowflake[],
+  pointer: SnowfallPointer,
+  { mode, radius = 100, strength = 1 }: SnowfallInteraction,
+  dtMs: number
+): void => {
+  for (const snowflake of particles) {
+    const { x, y } = snowflake.getParams();
+    const dx = x - pointer.x;
+    const dy = y - pointer.y;
+    const distance = Math.hypot(dx, dy);
+
+    if (distance >= radius || distance === 0) {
+      continue;
+    }
+
+    const falloff = (1 - distance / radius) * strength * (dtMs / 1000);
+
+    if (mode === "wake") {
+      snowflake.push(pointer.vx * DRAG * falloff, pointer.vy * DRAG * falloff);
+    } else {
+      const direction = mode === "repel" ? 1 : -1;
+      const force = (direction * PULL * falloff) / distance;
+      snowflake.push(dx * force, dy * force);
+    }
+  }
+};
@@ -0,0 +1,286 @@
+/**
+ * LocalRuntime - Runs the simulation and frame loop in the current thread
+ * (the main thread, or inside the snowfall worker)
+ */
+
+import { SnowfallSimulation } from "./simulation";
+import type {
+  Renderer,
+  SnowfallCanvasConfig,
+  SnowfallPointer,
+  SnowfallRuntime,
+  SnowfallStats,
+  SnowfallWindField,
+  SnowflakeImageSource,
+  SurfaceRect,
+} from "./types";
+import { FRAME_MS } from "./utils";
+
+/**
+ * A frame scheduled with `requestAnimationFrame` or a timer
+ */
+type FrameHandle = ReturnType<typeof setTimeout> | number;
+
+/**
+ * Schedule the next frame, falling back to a timer where
+ * `requestAnimationFrame` is unavailable (e.g. some workers)
+ */
+const requestFrame = (callback: () => void): FrameHandle =>
+  typeof requestAnimationFrame === "function"
+    ? requestAnimationFrame(callback)
+    : setTimeout(callback, FRAME_MS);
+
+/**
+ * Cancel a frame scheduled with `requestFrame`
+ */
+const cancelFrame = (handle: FrameHandle): void => {
+  if (
+    typeof cancelAnimationFrame === "function" &&
+    typeof handle === "number"
+  ) {
+    cancelAnimationFrame(handle);
+  } else {
+    clearTimeout(handle);
+  }
+};
+
+/** Length of the samples that stats are measured over */
+const STATS_SAMPLE_MS = 500;
+
+/**
+ * Frames arrive with some jitter, so a frame that is due this much early
+ * is still drawn under `maxFps`
+ */
+const FRAME_SLACK_MS = 2;
+
+/**
+ * Measure the time spent on a frame with a high resolution timer
+ */
+const timer = (): number =>
+  typeof performance === "undefined" ? Date.now() : performance.now();
+
+export class LocalRuntime implements SnowfallRuntime {
+  private readonly simulation: SnowfallSimulation;
+  private readonly renderer: Renderer;
+  private readonly onStats: ((stats: SnowfallStats) => void) | undefined;
+  private lastUpdate: number;
+  private animationFrame: FrameHandle | null = null;
+  private quality = 1;
+  private stats: SnowfallStats;
+  private sample = { frames: 0, start: 0, work: 0 };
+
+  constructor(
+    renderer: Renderer,
+    config: SnowfallCanvasConfig,
+    width: number,
+    height: number,
+    onStats?: (stats: SnowfallStats) => void
+  ) {
+    this.renderer = renderer;
+    this.simulation = new SnowfallSimulation(config, width, height);
+    this.onStats = onStats;
+    this.lastUpdate = this.now();
+    this.stats = {
+      activeFlakes: this.simulation.getParticles().length,
+      fps: 0,
+      frameTime: 0,
+      quality: this.quality,
+    };
+  }
+
+  /**
+   * Get the current time from the configured clock
+   */
+  private now(): number {
+    return this.simulation.getConfig().clock?.() ?? Date.now();
+  }
+
+  /**
+   * Update all snowflakes
+   */
+  private update(): void {
+    const now = this.now();
+    this.simulation.step(now - this.lastUpdate);
+    this.lastUpdate = now;
+  }
+
+  /**
+   * Render all snowflakes to canvas
+   */
+  private render(): void {
+    this.renderer.render(
+      this.simulation.getParticles(),
+      this.simulation.getAccumulation()
+    );
+  }
+
+  /**
+   * Check whether enough time passed for the next frame under `maxFps`
+   */
+  private isFrameDue(): boolean {
+    const { maxFps } = this.simulation.getConfig();
+
+    if (!maxFps) {
+      return true;
+    }
+
+    return this.now() - this.lastUpdate >= 1000 / maxFps - FRAME_SLACK_MS;
+  }
+
+  /**
+   * Count a drawn frame, publishing the stats at the end of each sample
+   */
+  private recordFrame(work: number): void {
+    this.sample.frames += 1;
+    this.sample.work += work;
+
+    const now = timer();
+    const elapsed = now - this.sample.start;
+
+    if (elapsed < STATS_SAMPLE_MS) {
+      return;
+    }
+
+    const { frames, work: totalWork } = this.sample;
+    const frameTime = totalWork / frames;
+    const quality = this.getNextQuality(frameTime);
+
+    if (quality !== this.quality) {
+      this.quality = quality;
+      this.simulation.setQuality(quality);
+    }
+
+    this.sample = { frames: 0, start: now, work: 0 };
+    this.stats = {
+      activeFlakes: this.simulation.getParticles().length,
+      fps: (frames * 1000) / elapsed,
+      frameTime,
+      quality: this.quality,
+    };
+    this.onStats?.(this.stats);
+  }
+
+  /**
+   * Get the share of active snowflakes for the measured frame time: shed
+   * snowflakes while frames exceed the budget of `adaptiveQuality`, and
+   * bring them back once frames take less than half of it
+   */
+  private getNextQuality(frameTime: number): number {
+    const { adaptiveQuality } = this.simulation.getConfig();
+
+    if (!adaptiveQuality) {
+      return 1;
+    }
+
+    const { frameBudgetMs = 12, minQuality = 0.25 } =
+      adaptiveQuality === true ? {} : adaptiveQuality;
+
+    if (frameTime > frameBudgetMs) {
+      return Math.max(this.quality * 0.8, minQuality);
+    }
+
+    if (frameTime < frameBudgetMs / 2) {
+      return Math.min(this.quality + 0.1, 1);
+    }
+
+    return this.quality;
+  }
+
+  /**
+   * Main animation loop
+   */
+  private readonly loop = (): void => {
+    // Skipped frames leave the elapsed time to the next drawn frame
+    if (this.isFrameDue()) {
+      const before = timer();
+      this.update();
+      this.render();
+      this.recordFrame(timer() - before);
+    }
+
+    this.animationFrame = requestFrame(this.loop);
+  };
+
+  start(): void {
+    if (this.animationFrame !== null) {
+      return;
+    }
+
+    this.lastUpdate = this.now();
+    this.sample = { frames: 0, start: timer(), work: 0 };
+    this.loop();
+  }
+
+  stop(): void {
+    if (this.animationFrame !== null) {
+      cancelFrame(this.animationFrame);
+      this.animationFrame = null;
+    }
+  }
+
+  renderStill(): void {
+    this.simulation.scatter();
+    this.render();
+  }
+
+  clear(): void {
+    this.renderer.clear();
+  }
+
+  updateConfig(config: SnowfallCanvasConfig): void {
+    if (config.batching) {
+      this.renderer.setBatching?.(config.batching);
+    }
+
+    // Transitions advance with the animation loop, so apply immediately when stopped
+    this.simulation.updateConfig(config, {
+      immediate: this.animationFrame === null,
+    });
+  }
+
+  resize(width: number, height: number, pixelRatio: number): void {
+    this.simulation.resize(width, height);
+    this.renderer.resize(width, height, pixelRatio);
+  }
+
+  shift(dx: number, dy: number): void {
+    this.simulation.shift(dx, dy);
+  }
+
+  setSurfaces(rects: SurfaceRect[]): void {
+    this.simulation.setSurfaces(rects);
+  }
+
+  clearAccumulation(): void {
+    this.simulation.clearAccumulation();
+  }
+
+  setWind(wind: SnowfallWindField | undefined): void {
+    this.simulation.setWind(wind);
+  }
+
+  setIntensity(intensity: number, durationMs: number): void {
+    this.simulation.setIntensity(intensity, durationMs);
+  }
+
+  setPointer(pointer: SnowfallPointer | null): void {
+    this.simulation.setPointer(pointer);
+  }
+
+  setLoadedImages(images: SnowflakeImageSource[]): void {
+    this.simulation.setLoadedImages(images);
+  }
+
+  getStats(): SnowfallStats {
+    return {
+      ...this.stats,
+      activeFlakes: this.simulation.getParticles().length,
+    };
+  }
+
+  destroy(): void {
+    this.stop();
+    this.simulation.clear();
+    this.renderer.destroy();
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * mountSnowfall - Framework-agnostic setup of a SnowfallCanvas on an
+ * element: initial sizing, registration and cleanup
+ */
+
+import { diffConfig } from "./config";
+import { registerSnowfall } from "./registry";
+import { SnowfallCanvas } from "./snowfall-canvas";
+import type { SnowfallCanvasConfig } from "./types";
+import { getCanvasSize } from "./utils";
+
+/**
+ * A mounted snowfall
+ */
+export interface SnowfallController {
+  /** The canvas the snowfall renders to */
+  readonly canvas: HTMLCanvasElement;
+  /**
+   * Stop the snowfall, unregister it and remove the canvas if it was
+   * created by `mountSnowfall`. Calling it again does nothing.
+   */
+  destroy: () => void;
+  /** The snowfall instance, e.g. to `pause` or `setWind` */
+  readonly snowfall: SnowfallCanvas;
+  /**
+   * Replace the config, passing only the options that changed to
+   * `updateConfig` so the existing snowflakes are kept
+   */
+  update: (config: SnowfallCanvasConfig) => void;
+}
+
+/**
+ * Create a canvas that fills an element
+ */
+const createFillingCanvas = (element: HTMLElement): HTMLCanvasElement => {
+  const canvas = document.createElement("canvas");
+  canvas.style.display = "block";
+  canvas.style.width = "100%";
+  canvas.style.height = "100%";
+  element.append(canvas);
+  return canvas;
+};
+
+/**
+ * Start a snowfall on a canvas, or on a new canvas filling any other
+ * element. The snowfall follows the canvas size, is registered, so
+ * `getSnowfall` finds it by its canvas, and tears itself down once the
+ * canvas is removed from the document.
+ *
+ * @example
+ * const controller = mountSnowfall(document.querySelector("#hero"), {
+ *   snowflakeCount: 200,
+ * });
+ * controller.update({ snowflakeCount: 400 });
+ * controller.destroy();
+ */
+export const mountSnowfall = (
+  element: HTMLElement,
+  config: SnowfallCanvasConfig = {}
+): SnowfallController => {
+  const isCanvas = element instanceof HTMLCanvasElement;
+  const canvas = isCanvas ? element : createFillingCanvas(element);
+
+  // Set initial size (scaled for the pixel ratio by SnowfallCanvas)
+  const initialSize = getCanvasSize(canvas);
+  canvas.width = initialSize.width;
+  canvas.height = initialSize.height;
+
+  const snowfall = new SnowfallCanvas(canvas, config);
+
+  // Expose the instance and dispatch `snowfall:ready`
+  registerSnowfall(canvas, snowfall);
+
+  let current = config;
+  let destroyed = false;
+
+  return {
+    canvas,
+    destroy: () => {
+      if (destroyed) {
+        return;
+      }
+
+      destroyed = true;
+      snowfall.destroy();
+
+      if (!isCanvas) {
+        canvas.remove();
+      }
+    },
+    snowfall,
+    update: (next) => {
+      const changes = diffConfig(current, next);
+      current = next;
+
+      if (!destroyed && Object.keys(changes).length > 0) {
+        snowfall.updateConfig(changes);
+      }
+    },
+  };
+};
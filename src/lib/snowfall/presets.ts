@@ -0,0 +1,112 @@
+/**
+ * Presets - Named weather looks, applied under the user's own options
+ */
+
+import type { SnowfallCanvasConfig, SnowfallPreset } from "./types";
+
+/**
+ * The partial config of every preset. Multi-colored presets use one layer
+ * per color.
+ */
+export const presets: Record<SnowfallPreset, SnowfallCanvasConfig> = {
+  "autumn-leaves": {
+    changeFrequency: 2500,
+    enable3DRotation: true,
+    layers: ["#c0392b", "#d35400", "#e67e22", "#a0522d"].map((color) => ({
+      color,
+    })),
+    radius: [5, 9],
+    rotationSpeed: [-180, 180],
+    shape: "quad",
+    snowflakeCount: 40,
+    speed: [60, 120],
+    wind: [30, 120],
+  },
+  blizzard: {
+    opacity: [0.6, 1],
+    radius: [0.5, 3],
+    snowflakeCount: 600,
+    speed: [180, 360],
+    windField: {
+      base: 180,
+      gustFrequency: 0.3,
+      gustStrength: 240,
+      turbulence: 60,
+    },
+  },
+  "cherry-blossom": {
+    color: "#ffb7c5",
+    enable3DRotation: true,
+    opacity: [0.7, 1],
+    radius: [3, 6],
+    rotationSpeed: [-120, 120],
+    shape: "quad",
+    snowflakeCount: 60,
+    speed: [36, 84],
+    wind: [18, 72],
+  },
+  confetti: {
+    enable3DRotation: true,
+    layers: ["#f94144", "#f9c74f", "#90be6d", "#577590", "#f8961e"].map(
+      (color) => ({ color })
+    ),
+    radius: [3, 5],
+    rotationSpeed: [-480, 480],
+    shape: "quad",
+    snowflakeCount: 200,
+    speed: [90, 180],
+    wind: [-60, 60],
+  },
+  "light-flurry": {
+    opacity: [0.6, 1],
+    radius: [0.5, 2],
+    snowflakeCount: 60,
+    speed: [30, 72],
+    wind: [-18, 36],
+  },
+  rain: {
+    changeFrequency: 1500,
+    color: "#a4b8cc",
+    opacity: [0.3, 0.7],
+    radius: [0.4, 0.9],
+    shape: "streak",
+    snowflakeCount: 300,
+    speed: [600, 960],
+    wind: [30, 90],
+  },
+  sleet: {
+    changeFrequency: 1500,
+    color: "#c9d6e3",
+    opacity: [0.5, 0.9],
+    radius: [0.5, 1.2],
+    shape: "streak",
+    snowflakeCount: 250,
+    speed: [300, 480],
+    wind: [60, 120],
+  },
+};
+
+/**
+ * Expand the preset of a config (if any) under its other options. When the
+ * preset changed from `previous` (or was set to undefined), values only the
+ * previous preset set are reset to undefined so they fall back to the
+ * defaults.
+ */
+export const applyPreset = (
+  config: SnowfallCanvasConfig,
+  previous?: SnowfallPreset
+): SnowfallCanvasConfig => {
+  const { preset } = config;
+
+  if (preset === previous || !("preset" in config)) {
+    return config;
+  }
+
+  const reset = previous
+    ? Object.fromEntries(
+        Object.keys(presets[previous]).map((key) => [key, undefined])
+      )
+    : {};
+
+  return { ...reset, ...(preset && presets[preset]), ...config };
+};
@@ -0,0 +1,125 @@
+/**
+ * Registry of active SnowfallCanvas instances on the page
+ */
+
+import type { SnowfallCanvas } from "./snowfall-canvas";
+
+/**
+ * Detail payload for snowfall DOM events
+ */
+export interface SnowfallEventDetail {
+  /** The canvas element the snowfall renders to */
+  canvas: HTMLCanvasElement;
+  /** The id of the canvas element */
+  id: string;
+  /** The snowfall controller */
+  snowfall: SnowfallCanvas;
+}
+
+declare global {
+  interface HTMLElementEventMap {
+    "snowfall:destroy": CustomEvent<SnowfallEventDetail>;
+    "snowfall:ready": CustomEvent<SnowfallEventDetail>;
+  }
+}
+
+const instances = new Map<HTMLCanvasElement, SnowfallCanvas>();
+
+/**
+ * Resolve an id or element to a registered canvas element
+ */
+const findCanvas = (
+  idOrElement: string | HTMLCanvasElement
+): HTMLCanvasElement | undefined => {
+  if (typeof idOrElement !== "string") {
+    return instances.has(idOrElement) ? idOrElement : undefined;
+  }
+
+  return [...instances.keys()].find((canvas) => canvas.id === idOrElement);
+};
+
+/**
+ * Dispatch a snowfall event on the canvas (bubbles up to the document)
+ */
+const dispatch = (
+  type: "snowfall:ready" | "snowfall:destroy",
+  canvas: HTMLCanvasElement,
+  snowfall: SnowfallCanvas
+): void => {
+  canvas.dispatchEvent(
+    new CustomEvent<SnowfallEventDetail>(type, {
+      bubbles: true,
+      detail: { canvas, id: canvas.id, snowfall },
+    })
+  );
+};
+
+/**
+ * Register a snowfall instance and dispatch `snowfall:ready` on its canvas
+ */
+export const registerSnowfall = (
+  canvas: HTMLCanvasElement,
+  snowfall: SnowfallCanvas
+): void => {
+  instances.set(canvas, snowfall);
+  dispatch("snowfall:ready", canvas, snowfall);
+};
+
+/**
+ * Check whether a canvas already has a registered snowfall
+ */
+export const hasSnowfall = (idOrElement: string | HTMLCanvasElement): boolean =>
+  findCanvas(idOrElement) !== undefined;
+
+/**
+ * Get the snowfall instance for a canvas element or its id
+ *
+ * @example
+ * getSnowfall("hero-snow")?.pause();
+ */
+export const getSnowfall = (
+  idOrElement: string | HTMLCanvasElement
+): SnowfallCanvas | undefined => {
+  const canvas = findCanvas(idOrElement);
+  return canvas ? instances.get(canvas) : undefined;
+};
+
+/**
+ * Get every registered snowfall instance
+ */
+export const getAllSnowfalls = (): SnowfallCanvas[] => [...instances.values()];
+
+/**
+ * Unregister a destroyed snowfall instance and dispatch `snowfall:destroy`
+ * on its canvas. Called by `SnowfallCanvas.destroy`.
+ */
+export const unregisterSnowfall = (
+  canvas: HTMLCanvasElement,
+  snowfall: SnowfallCanvas
+): void => {
+  if (instances.get(canvas) !== snowfall) {
+    return;
+  }
+
+  instances.delete(canvas);
+  dispatch("snowfall:destroy", canvas, snowfall);
+};
+
+/**
+ * Destroy a snowfall instance, which unregisters it and dispatches
+ * `snowfall:destroy`
+ */
+export const destroySnowfall = (
+  idOrElement: string | HTMLCanvasElement
+): void => {
+  getSnowfall(idOrElement)?.destroy();
+};
+
+/**
+ * Destroy every registered snowfall instance
+ */
+export const destroyAllSnowfalls = (): void => {
+  for (const canvas of [...instances.keys()]) {
+    destroySnowfall(canvas);
+  }
+};
@@ -0,0 +1,166 @@
+/**
+ * ShapeAtlas - Cache of pre-rasterized crystal and star bitmaps, bucketed by
+ * design, color and a few sizes, so they cost about as much as images to draw
+ */
+
+import { type Crystal, generateCrystal, traceStar } from "./shapes";
+import { createCanvas, type Sprite } from "./sprite-atlas";
+
+/** Radii in CSS pixels that bitmaps are rasterized at */
+const SIZES = [4, 8, 16, 32, 64];
+
+/** Padding around each shape, relative to its radius, for line caps */
+const PADDING = 0.15;
+
+/** Drop the cache past this many bitmaps (e.g. during color transitions) */
+const MAX_BITMAPS = 256;
+
+/**
+ * Round a radius up to the nearest size so bitmaps are only ever scaled down
+ */
+const getSizeBucket = (radius: number): number =>
+  SIZES.find((size) => size >= radius) ?? (SIZES.at(-1) as number);
+
+/**
+ * Draw a crystal, stroking its arm six times around the center
+ */
+const drawCrystal = (
+  ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D,
+  { plate, segments }: Crystal,
+  radius: number
+): void => {
+  ctx.lineCap = "round";
+
+  for (let arm = 0; arm < 6; arm += 1) {
+    for (const { width, x1, x2, y1, y2 } of segments) {
+      ctx.beginPath();
+      ctx.moveTo(x1 * radius, y1 * radius);
+      ctx.lineTo(x2 * radius, y2 * radius);
+      ctx.lineWidth = width * radius;
+      ctx.stroke();
+    }
+
+    ctx.rotate(Math.PI / 3);
+  }
+
+  if (plate > 0) {
+    ctx.beginPath();
+
+    for (let corner = 0; corner < 6; corner += 1) {
+      const angle = (corner * Math.PI) / 3;
+      ctx.lineTo(
+        Math.cos(angle) * plate * radius,
+        Math.sin(angle) * plate * radius
+      );
+    }
+
+    ctx.fill();
+  }
+};
+
+export class ShapeAtlas {
+  private readonly bitmaps = new Map<string, Sprite>();
+  private readonly crystals = new Map<string, Crystal>();
+  private pixelRatio = 1;
+
+  /**
+   * Set the pixel ratio bitmaps are rasterized at, dropping stale bitmaps
+   */
+  setPixelRatio(pixelRatio: number): void {
+    if (pixelRatio !== this.pixelRatio) {
+      this.pixelRatio = pixelRatio;
+      this.bitmaps.clear();
+    }
+  }
+
+  /**
+   * Get (or rasterize) the bitmap for a crystal design or a star. Pass
+   * `Infinity` as the radius for the largest size, e.g. for textures.
+   */
+  getSprite(
+    shape: "crystal" | "star",
+    design: number,
+    complexity: number,
+    color: string,
+    radius: number
+  ): Sprite {
+    const size = getSizeBucket(radius);
+    const key =
+      shape === "star"
+        ? `star|${color}|${size}`
+        : `crystal|${design}|${complexity}|${color}|${size}`;
+    const cached = this.bitmaps.get(key);
+
+    if (cached) {
+      return cached;
+    }
+
+    if (this.bitmaps.size >= MAX_BITMAPS) {
+      this.bitmaps.clear();
+    }
+
+    const sprite = this.rasterize(
+      shape === "star" ? null : this.getCrystal(design, complexity),
+      color,
+      size
+    );
+    this.bitmaps.set(key, sprite);
+    return sprite;
+  }
+
+  /**
+   * Get (or generate) the geometry of a crystal design
+   */
+  private getCrystal(design: number, complexity: number): Crystal {
+    const key = `${design}|${complexity}`;
+    let crystal = this.crystals.get(key);
+
+    if (!crystal) {
+      crystal = generateCrystal(design, complexity);
+      this.crystals.set(key, crystal);
+    }
+
+    return crystal;
+  }
+
+  /**
+   * Draw a crystal (or a star when null) into a new bitmap canvas
+   */
+  private rasterize(
+    crystal: Crystal | null,
+    color: string,
+    radius: number
+  ): Sprite {
+    const size = radius * (1 + PADDING) * 2;
+    const pixels = Math.ceil(size * this.pixelRatio);
+    const canvas = createCanvas(pixels, pixels);
+    const ctx = canvas.getContext("2d") as
+      | CanvasRenderingContext2D
+      | OffscreenCanvasRenderingContext2D
+      | null;
+
+    if (ctx) {
+      ctx.scale(this.pixelRatio, this.pixelRatio);
+      ctx.translate(size / 2, size / 2);
+      ctx.fillStyle = color;
+      ctx.strokeStyle = color;
+
+      if (crystal) {
+        drawCrystal(ctx, crystal, radius);
+      } else {
+        ctx.beginPath();
+        traceStar(ctx, radius);
+        ctx.fill();
+      }
+    }
+
+    return { canvas, radius, size: pixels / this.pixelRatio };
+  }
+
+  /**
+   * Drop every cached bitmap
+   */
+  clear(): void {
+    this.bitmaps.clear();
+  }
+}
@@ -0,0 +1,183 @@
+/**
+ * Shapes - Geometry shared by the renderers for non-circle snowflakes
+ */
+
+import type { SnowflakeParams, SnowflakeProps, SnowflakeShape } from "./types";
+import { createRandom, random } from "./utils";
+
+/**
+ * A shape after resolving `mixed` to one of its shapes
+ */
+export type ResolvedShape = Exclude<SnowflakeShape, "mixed">;
+
+/**
+ * A line of a crystal, in multiples of the radius
+ */
+export interface CrystalSegment {
+  width: number;
+  x1: number;
+  x2: number;
+  y1: number;
+  y2: number;
+}
+
+/**
+ * The geometry of one crystal arm, repeated six times around the center
+ */
+export interface Crystal {
+  /** The radius of the hexagonal plate at the center (0 for none) */
+  plate: number;
+  /** The lines of the arm, pointing along the x axis */
+  segments: CrystalSegment[];
+}
+
+/** Height of a quad relative to its width */
+export const QUAD_ASPECT = 0.6;
+
+/** Number of distinct crystal designs */
+export const CRYSTAL_VARIANTS = 8;
+
+/** Shapes picked from by `mixed` */
+const MIXED_SHAPES: ResolvedShape[] = ["circle", "crystal", "star"];
+
+/** Seconds of motion a streak trails behind its head */
+const STREAK_SECONDS = 0.05;
+
+/** Angle between a crystal branch and the line it grows from */
+const BRANCH_ANGLE = Math.PI / 3;
+
+/** Width of crystal arms relative to the radius */
+const ARM_WIDTH = 0.12;
+
+/** Inner radius of a star relative to its outer radius */
+const STAR_INNER_RADIUS = 0.45;
+
+/**
+ * Get the direction (radians, 0 pointing down) and length of a streak,
+ * stretched along the snowflake's velocity and never shorter than a dot
+ */
+export const getStreak = ({
+  pushX,
+  pushY,
+  radius,
+  speed,
+  wind,
+}: Readonly<SnowflakeParams>): { angle: number; length: number } => {
+  const vx = wind + pushX;
+  const vy = speed + pushY;
+
+  return {
+    angle: Math.atan2(-vx, vy),
+    length: Math.max(Math.hypot(vx, vy) * STREAK_SECONDS, radius * 2),
+  };
+};
+
+/**
+ * Resolve the shape of a snowflake (picking one for `mixed`) and the index
+ * of its crystal design
+ */
+export const resolveShape = (
+  { shape = "circle" }: Readonly<SnowflakeProps>,
+  { variant = 0 }: Readonly<SnowflakeParams>
+): [ResolvedShape, number] => {
+  if (shape !== "mixed") {
+    return [shape, Math.floor(variant * CRYSTAL_VARIANTS)];
+  }
+
+  const scaled = variant * MIXED_SHAPES.length;
+  const index = Math.floor(scaled);
+
+  return [MIXED_SHAPES[index], Math.floor((scaled - index) * CRYSTAL_VARIANTS)];
+};
+
+/**
+ * Whether a shape needs a per-snowflake `variant`
+ */
+export const usesVariant = (shape: SnowflakeShape | undefined): boolean =>
+  shape === "crystal" || shape === "star" || shape === "mixed";
+
+/**
+ * Grow a line and, below the last level, side branches along it that each
+ * grow their own branches on both sides
+ */
+const grow = (
+  segments: CrystalSegment[],
+  rng: () => number,
+  [x, y, angle, length, width]: [number, number, number, number, number],
+  levels: number,
+  sides: readonly number[]
+): void => {
+  const dx = Math.cos(angle) * length;
+  const dy = Math.sin(angle) * length;
+
+  segments.push({ width, x1: x, x2: x + dx, y1: y, y2: y + dy });
+
+  if (levels <= 0) {
+    return;
+  }
+
+  const count = 2 + Math.floor(rng() * 2);
+
+  for (let index = 0; index < count; index += 1) {
+    // Spread the branches along the line, shorter towards its tip
+    const t = 0.2 + (0.7 * (index + rng())) / count;
+    const branchLength = length * (1 - t) * random(0.4, 0.9, rng);
+
+    for (const side of sides) {
+      grow(
+        segments,
+        rng,
+        [
+          x + dx * t,
+          y + dy * t,
+          angle + side * BRANCH_ANGLE,
+          branchLength,
+          width * 0.7,
+        ],
+        levels - 1,
+        [-1, 1]
+      );
+    }
+  }
+};
+
+/**
+ * Generate a six-fold dendrite crystal. The same design and complexity
+ * always produce the same crystal.
+ */
+export const generateCrystal = (
+  design: number,
+  complexity: number
+): Crystal => {
+  const levels = Math.min(Math.max(Math.round(complexity), 0), 3);
+  const rng = createRandom(`crystal:${design}:${levels}`);
+  const segments: CrystalSegment[] = [];
+
+  // Grow one side of the arm, then mirror it so the arm is symmetric
+  grow(segments, rng, [0, 0, 0, 1, ARM_WIDTH], levels, [1]);
+
+  const [arm, ...branches] = segments;
+  const mirrored = branches.map(({ y1, y2, ...segment }) => ({
+    ...segment,
+    y1: -y1,
+    y2: -y2,
+  }));
+
+  return {
+    plate: rng() < 0.5 ? random(0.12, 0.3, rng) : 0,
+    segments: [arm, ...branches, ...mirrored],
+  };
+};
+
+/**
+ * Trace a five-pointed star of the given radius around the origin
+ */
+export const traceStar = (ctx: CanvasPath, radius: number): void => {
+  for (let point = 0; point < 10; point += 1) {
+    const angle = (point * Math.PI) / 5 - Math.PI / 2;
+    const distance = point % 2 === 0 ? radius : radius * STAR_INNER_RADIUS;
+    ctx.lineTo(Math.cos(angle) * distance, Math.sin(angle) * distance);
+  }
+
+  ctx.closePath();
+};
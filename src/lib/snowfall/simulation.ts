@@ -0,0 +1,766 @@
+/**
+ * SnowfallSimulation - Headless particle state and stepping, independent of
+ * any canvas or rendering API
+ */
+
+import { Accumulation } from "./accumulation";
+import {
+  defaultSnowflakeConfig,
+  lerpSnowflakeProps,
+  normalizeSnowflakeConfig,
+} from "./config";
+import { normalizeImages } from "./images";
+import { applyInteraction } from "./interaction";
+import { Snowflake } from "./snowflake";
+import { sampleTimeline, type TimelineSample } from "./timeline";
+import type {
+  AccumulatedSnow,
+  SnowfallCanvasConfig,
+  SnowfallPointer,
+  SnowfallWindField,
+  SnowflakeImageSource,
+  SnowflakeProps,
+  SurfaceRect,
+} from "./types";
+import {
+  createRandom,
+  FRAME_MS,
+  lerp,
+  type RandomSource,
+  toRange,
+} from "./utils";
+import { WindField } from "./wind-field";
+
+/**
+ * Longest step the simulation takes at once, e.g. after the page was frozen
+ */
+const MAX_STEP_MS = 100;
+
+/**
+ * The config and snowflake count of a depth layer
+ */
+interface LayerTarget {
+  config: SnowflakeProps;
+  count: number;
+  parallax: number;
+}
+
+/**
+ * A depth layer and its snowflakes
+ */
+interface Layer extends LayerTarget {
+  snowflakes: Snowflake[];
+}
+
+/**
+ * State of an in-progress config transition
+ */
+interface ConfigTransition {
+  duration: number;
+  elapsed: number;
+  from: LayerTarget[];
+  to: LayerTarget[];
+}
+
+/**
+ * State of an in-progress intensity change
+ */
+interface IntensityTransition {
+  duration: number;
+  elapsed: number;
+  from: number;
+  to: number;
+}
+
+/**
+ * Clamp an intensity into [0, 1]
+ */
+const clampIntensity = (intensity: number): number =>
+  Math.min(Math.max(intensity, 0), 1);
+
+/**
+ * Whether two optional ranges are equal
+ */
+const isSameRange = (a?: [number, number], b?: [number, number]): boolean =>
+  a === b || (a?.[0] === b?.[0] && a?.[1] === b?.[1]);
+
+/**
+ * Ease in and out of a transition (smoothstep)
+ */
+const easeInOut = (t: number): number => t * t * (3 - 2 * t);
+
+/**
+ * Drop undefined values so they do not override the base config
+ */
+const omitUndefined = <T extends object>(value: T): Partial<T> =>
+  Object.fromEntries(
+    Object.entries(value).filter(([, entry]) => entry !== undefined)
+  ) as Partial<T>;
+
+export class SnowfallSimulation {
+  private config: SnowfallCanvasConfig;
+  private layers: Layer[] = [];
+  private particles: Snowflake[] = [];
+  private images: SnowflakeProps["images"];
+  private loadedImages: SnowflakeImageSource[] = [];
+  private transition: ConfigTransition | null = null;
+  private intensity: number;
+  private intensityTransition: IntensityTransition | null = null;
+  private timelineElapsed = 0;
+  private timelineSample: TimelineSample = {};
+  private pointer: SnowfallPointer | null = null;
+  private accumulation: Accumulation | null = null;
+  private windField: WindField | null = null;
+  private rng: RandomSource;
+  private width: number;
+  private height: number;
+  private quality = 1;
+
+  constructor(config?: SnowfallCanvasConfig, width = 0, height = 0) {
+    this.config = config ?? {};
+    this.rng = this.createRandom();
+    this.width = width;
+    this.height = height;
+    this.images = this.config.images;
+    this.intensity = clampIntensity(this.config.intensity ?? 1);
+    this.updateTimeline(0);
+    this.createSnowflakes();
+    this.updateAccumulation();
+    this.updateWindField();
+  }
+
+  /**
+   * Create, update or drop the wind field to match the config. The noise has
+   * its own random source so it does not change seeded snowflakes.
+   */
+  private updateWindField(): void {
+    const options = this.config.windField;
+
+    if (!options) {
+      this.windField = null;
+    } else if (this.windField) {
+      this.windField.setOptions(options);
+    } else {
+      const { seed } = this.config;
+      this.windField = new WindField(
+        options,
+        seed === undefined ? Math.random : createRandom(`${seed}:wind`)
+      );
+    }
+  }
+
+  /**
+   * Create, update or drop the accumulated snow to match the config
+   */
+  private updateAccumulation(): void {
+    const options = this.config.accumulation;
+
+    if (!options) {
+      this.accumulation = null;
+    } else if (this.accumulation) {
+      this.accumulation.setOptions(options);
+    } else {
+      this.accumulation = new Accumulation(options, this.width, this.height);
+    }
+  }
+
+  /**
+   * Create the random source, seeded when a seed is configured
+   */
+  private createRandom(): RandomSource {
+    const { seed } = this.config;
+    return seed === undefined ? Math.random : createRandom(seed);
+  }
+
+  /**
+   * Combine the configured images with the loaded image URLs
+   */
+  private updateImages(): void {
+    this.images =
+      this.loadedImages.length > 0
+        ? [...normalizeImages(this.config.images), ...this.loadedImages]
+        : this.config.images;
+  }
+
+  /**
+   * Resolve the snowflake count, scaling by area when a density is set
+   */
+  private getSnowflakeCount(): number {
+    const { snowflakeCount, snowflakeDensity } = this.config;
+
+    if (snowflakeDensity !== undefined) {
+      return Math.round(
+        (snowflakeDensity * this.width * this.height) / 100_000
+      );
+    }
+
+    return snowflakeCount ?? 150;
+  }
+
+  /**
+   * Resolve the snowflake config from the canvas config and defaults
+   */
+  private getSnowflakeConfig(): SnowflakeProps {
+    const {
+      color,
+      correlateDepth,
+      radius,
+      speed,
+      wind,
+      changeFrequency,
+      rotationSpeed,
+      opacity,
+      enable3DRotation,
+    } = defaultSnowflakeConfig;
+
+    return {
+      blur: this.config.blur,
+      changeFrequency: this.config.changeFrequency ?? changeFrequency,
+      color: this.config.color ?? color,
+      correlateDepth: this.config.correlateDepth ?? correlateDepth,
+      crystalComplexity: this.config.crystalComplexity,
+      enable3DRotation: this.config.enable3DRotation ?? enable3DRotation,
+      images: this.images,
+      opacity: toRange(this.config.opacity ?? opacity),
+      radius: toRange(this.config.radius ?? radius),
+      rotationSpeed: toRange(this.config.rotationSpeed ?? rotationSpeed),
+      shape: this.config.shape,
+      speed: toRange(this.timelineSample.speed ?? this.config.speed ?? speed),
+      wind: toRange(this.timelineSample.wind ?? this.config.wind ?? wind),
+    };
+  }
+
+  /**
+   * Resolve the config, count and parallax of each depth layer, ordered
+   * from back to front (a single layer when `layers` is not set)
+   */
+  private getLayerTargets(): LayerTarget[] {
+    const base = this.getSnowflakeConfig();
+    const count = this.getSnowflakeCount();
+    const { layers } = this.config;
+
+    if (!layers?.length) {
+      return [{ config: base, count, parallax: 1 }];
+    }
+
+    return layers.map(
+      ({ parallax, snowflakeCount, ...layer }, index): LayerTarget => ({
+        config: {
+          ...base,
+          correlateDepth: true,
+          ...omitUndefined(normalizeSnowflakeConfig(layer)),
+        },
+        count: snowflakeCount ?? count / layers.length,
+        parallax: parallax ?? (index + 1) / layers.length,
+      })
+    );
+  }
+
+  /**
+   * Collect the snowflakes of every layer, back to front, for rendering
+   */
+  private updateParticles(): void {
+    this.particles = this.layers.flatMap(({ snowflakes }) => snowflakes);
+  }
+
+  /**
+   * Create the initial set of snowflakes
+   */
+  private createSnowflakes(): void {
+    this.layers = this.getLayerTargets().map((target) => ({
+      ...target,
+      snowflakes: Snowflake.createSnowflakes(
+        this.getActiveCount(target.count),
+        target.config,
+        this.width,
+        this.height,
+        this.rng
+      ),
+    }));
+    this.updateParticles();
+  }
+
+  /**
+   * Apply a layer config to its existing snowflakes, adding or removing
+   * only the difference in count
+   */
+  private applyLayerTarget(layer: Layer, target: LayerTarget): void {
+    const { config, count } = target;
+
+    layer.config = config;
+    layer.count = count;
+    layer.parallax = target.parallax;
+
+    for (const snowflake of layer.snowflakes) {
+      snowflake.updateConfig(config);
+    }
+
+    this.resizeLayer(layer);
+  }
+
+  /**
+   * Add or remove snowflakes to match the active count of a layer
+   */
+  private resizeLayer(layer: Layer): void {
+    const delta = this.getActiveCount(layer.count) - layer.snowflakes.length;
+
+    if (delta > 0) {
+      layer.snowflakes.push(
+        ...Snowflake.createSnowflakes(
+          delta,
+          layer.config,
+          this.width,
+          this.height,
+          this.rng
+        )
+      );
+    } else if (delta < 0) {
+      layer.snowflakes.length += delta;
+    }
+  }
+
+  /**
+   * Get the share of snowflakes that are active, from the intensity and the
+   * timeline
+   */
+  private getIntensity(): number {
+    return clampIntensity(
+      this.intensity * (this.timelineSample.intensity ?? 1)
+    );
+  }
+
+  /**
+   * Get the number of active snowflakes for a layer count
+   */
+  private getActiveCount(count: number): number {
+    return Math.max(0, Math.round(count * this.getIntensity() * this.quality));
+  }
+
+  /**
+   * Apply the targets to the existing layers, starting a new scene when the
+   * number of layers changed
+   */
+  private applyLayerTargets(targets: LayerTarget[]): void {
+    if (targets.length !== this.layers.length) {
+      this.createSnowflakes();
+      return;
+    }
+
+    for (const [index, layer] of this.layers.entries()) {
+      this.applyLayerTarget(layer, targets[index]);
+    }
+
+    this.updateParticles();
+  }
+
+  /**
+   * Advance the in-progress config transition, if any
+   */
+  private updateTransition(dtMs: number): void {
+    if (!this.transition) {
+      return;
+    }
+
+    this.transition.elapsed += dtMs;
+
+    const { duration, elapsed, from, to } = this.transition;
+    const progress = Math.min(elapsed / duration, 1);
+
+    if (progress >= 1) {
+      this.transition = null;
+      this.applyLayerTargets(to);
+      return;
+    }
+
+    const t = easeInOut(progress);
+    this.applyLayerTargets(
+      to.map((target, index) => ({
+        config: lerpSnowflakeProps(from[index].config, target.config, t),
+        count: lerp(from[index].count, target.count, t),
+        parallax: target.parallax,
+      }))
+    );
+  }
+
+  /**
+   * Advance the in-progress intensity change, if any
+   */
+  private updateIntensityTransition(dtMs: number): void {
+    if (!this.intensityTransition) {
+      return;
+    }
+
+    this.intensityTransition.elapsed += dtMs;
+
+    const { duration, elapsed, from, to } = this.intensityTransition;
+    const progress = Math.min(elapsed / duration, 1);
+
+    this.intensity = lerp(from, to, easeInOut(progress));
+
+    if (progress >= 1) {
+      this.intensityTransition = null;
+    }
+  }
+
+  /**
+   * Advance the timeline, if any, applying its speed and wind when they
+   * changed (config transitions pick them up when they end)
+   */
+  private updateTimeline(dtMs: number): void {
+    const { timeline } = this.config;
+
+    if (!timeline) {
+      this.timelineSample = {};
+      return;
+    }
+
+    this.timelineElapsed += dtMs;
+
+    const previous = this.timelineSample;
+    this.timelineSample = sampleTimeline(timeline, this.timelineElapsed);
+
+    if (
+      !this.transition &&
+      this.layers.length > 0 &&
+      !(
+        isSameRange(previous.speed, this.timelineSample.speed) &&
+        isSameRange(previous.wind, this.timelineSample.wind)
+      )
+    ) {
+      this.applyLayerTargets(this.getLayerTargets());
+    }
+  }
+
+  /**
+   * Match the snowflakes of every layer to the current intensity
+   */
+  private resizeLayers(): void {
+    for (const layer of this.layers) {
+      this.resizeLayer(layer);
+    }
+
+    this.updateParticles();
+  }
+
+  /**
+   * Advance the simulation by the given number of milliseconds, at most
+   * `MAX_STEP_MS` at once so a long stall does not teleport the snowflakes.
+   * A low `maxFps` allows up to two of its frames, leaving room for late
+   * frames without slowing the snow.
+   */
+  step(elapsedMs: number): void {
+    const { maxFps } = this.config;
+    const maxStepMs = maxFps
+      ? Math.max(MAX_STEP_MS, 2000 / maxFps)
+      : MAX_STEP_MS;
+    const dtMs = Math.min(Math.max(elapsedMs, 0), maxStepMs);
+    const intensity = this.getIntensity();
+
+    this.updateTransition(dtMs);
+    this.updateIntensityTransition(dtMs);
+    this.updateTimeline(dtMs);
+
+    if (this.getIntensity() !== intensity) {
+      this.resizeLayers();
+    }
+
+    const { interaction } = this.config;
+
+    if (interaction && this.pointer) {
+      applyInteraction(this.particles, this.pointer, interaction, dtMs);
+
+      // A resting pointer stops stirring up a wake, halving every frame
+      const decay = 0.5 ** (dtMs / FRAME_MS);
+      this.pointer.vx *= decay;
+      this.pointer.vy *= decay;
+    }
+
+    this.windField?.advance(dtMs);
+    const globalWind = this.windField?.getGlobalWind() ?? 0;
+
+    // Update each snowflake
+    for (const snowflake of this.particles) {
+      const { x: previousX, y: previousY } = snowflake.getParams();
+      const wrapped = snowflake.update(
+        this.width,
+        this.height,
+        dtMs,
+        this.windField?.sample(globalWind, previousX, previousY)
+      );
+
+      // Settled snowflakes join the pile and start over from the top. A
+      // snowflake that wrapped fell through the bottom edge on its way.
+      const { x, y, radius } = snowflake.getParams();
+      const fallenY = wrapped ? this.height : y;
+      if (this.accumulation?.collect(x, previousY, fallenY, radius)) {
+        snowflake.respawn(this.width);
+      }
+    }
+
+    this.accumulation?.melt(dtMs);
+  }
+
+  /**
+   * Get the current particles, e.g. to hand them to a renderer
+   */
+  getParticles(): readonly Snowflake[] {
+    return this.particles;
+  }
+
+  /**
+   * Get the settled snow, if accumulation is enabled
+   */
+  getAccumulation(): AccumulatedSnow | undefined {
+    if (!this.accumulation) {
+      return;
+    }
+
+    return {
+      color:
+        this.config.accumulation?.color ??
+        this.layers.at(-1)?.config.color ??
+        defaultSnowflakeConfig.color,
+      surfaces: this.accumulation.getSurfaces(),
+    };
+  }
+
+  /**
+   * Track element rects, in canvas CSS pixels, that collect snow
+   */
+  setSurfaces(rects: SurfaceRect[]): void {
+    this.accumulation?.setSurfaces(rects);
+  }
+
+  /**
+   * Remove all settled snow
+   */
+  clearAccumulation(): void {
+    this.accumulation?.clear();
+  }
+
+  /**
+   * Get the current (merged) configuration
+   */
+  getConfig(): Readonly<SnowfallCanvasConfig> {
+    return this.config;
+  }
+
+  /**
+   * Get the simulated area in CSS pixels
+   */
+  getSize(): { height: number; width: number } {
+    return { height: this.height, width: this.width };
+  }
+
+  /**
+   * Spread every snowflake over the visible area, e.g. for a still frame
+   */
+  scatter(): void {
+    for (const snowflake of this.particles) {
+      snowflake.scatter(this.width, this.height);
+    }
+  }
+
+  /**
+   * Move the snowflakes of each layer by its share of a parallax offset
+   */
+  shift(dx: number, dy: number): void {
+    for (const { parallax, snowflakes } of this.layers) {
+      for (const snowflake of snowflakes) {
+        snowflake.translate(dx * parallax, dy * parallax, this.height);
+      }
+    }
+  }
+
+  /**
+   * Replace the global wind field, or return to per-snowflake wind, without
+   * touching the rest of the config
+   */
+  setWind(wind: SnowfallWindField | undefined): void {
+    this.config = { ...this.config, windField: wind };
+    this.updateWindField();
+  }
+
+  /**
+   * Ease the share of active snowflakes to a value (0 to 1) over a duration
+   * in milliseconds, or right away
+   */
+  setIntensity(intensity: number, durationMs = 0): void {
+    const to = clampIntensity(intensity);
+    this.config = { ...this.config, intensity: to };
+
+    if (durationMs > 0) {
+      this.intensityTransition = {
+        duration: durationMs,
+        elapsed: 0,
+        from: this.intensity,
+        to,
+      };
+      return;
+    }
+
+    this.intensityTransition = null;
+    this.intensity = to;
+    this.resizeLayers();
+  }
+
+  /**
+   * Scale the number of active snowflakes (0 to 1) on top of the intensity,
+   * e.g. to shed snowflakes on a slow device
+   */
+  setQuality(quality: number): void {
+    const next = clampIntensity(quality);
+
+    if (next !== this.quality) {
+      this.quality = next;
+      this.resizeLayers();
+    }
+  }
+
+  /**
+   * Update the pointer used by `interaction`, or null when it left
+   */
+  setPointer(pointer: SnowfallPointer | null): void {
+    this.pointer = pointer && { ...pointer };
+  }
+
+  /**
+   * Replace the images loaded from `imageUrls` and swap snowflakes over to them
+   */
+  setLoadedImages(images: SnowflakeImageSource[]): void {
+    this.loadedImages = images;
+    this.updateImages();
+
+    // Layers with their own images keep them
+    const withImages = (target: LayerTarget, index: number): LayerTarget => ({
+      ...target,
+      config: {
+        ...target.config,
+        images: this.config.layers?.[index]?.images ?? this.images,
+      },
+    });
+
+    if (this.transition) {
+      this.transition.to = this.transition.to.map(withImages);
+    }
+
+    this.applyLayerTargets(this.layers.map(withImages));
+  }
+
+  /**
+   * Merge a partial configuration into the current one, keeping the existing
+   * snowflakes and transitioning over `transitionMs` unless `immediate` is set
+   */
+  updateConfig(
+    config: SnowfallCanvasConfig,
+    { immediate = false }: { immediate?: boolean } = {}
+  ): void {
+    const previous = this.config;
+    this.config = { ...previous, ...config };
+
+    if (this.config.images !== previous.images) {
+      this.updateImages();
+    }
+
+    if (this.config.accumulation !== previous.accumulation) {
+      this.updateAccumulation();
+    }
+
+    if (this.config.windField !== previous.windField) {
+      this.updateWindField();
+    }
+
+    if (this.config.timeline !== previous.timeline) {
+      this.timelineElapsed = 0;
+      this.timelineSample = {};
+      this.updateTimeline(0);
+    }
+
+    if (this.config.intensity !== previous.intensity) {
+      this.setIntensity(
+        this.config.intensity ?? 1,
+        immediate ? 0 : (this.config.transitionMs ?? 0)
+      );
+    }
+
+    // A new seed starts a new reproducible scene
+    if (this.config.seed !== previous.seed) {
+      this.rng = this.createRandom();
+      this.transition = null;
+      this.windField = null;
+      this.updateWindField();
+      this.createSnowflakes();
+      return;
+    }
+
+    const targets = this.getLayerTargets();
+    const transitionMs = this.config.transitionMs ?? 0;
+
+    // Layers can only be interpolated one to one
+    if (
+      transitionMs > 0 &&
+      !immediate &&
+      targets.length === this.layers.length
+    ) {
+      this.transition = {
+        duration: transitionMs,
+        elapsed: 0,
+        from: this.layers.map((layer) => ({
+          config: layer.config,
+          count: layer.count,
+          parallax: layer.parallax,
+        })),
+        to: targets,
+      };
+    } else {
+      this.transition = null;
+      this.applyLayerTargets(targets);
+    }
+  }
+
+  /**
+   * Resize the simulated area, redistributing snowflakes proportionally
+   */
+  resize(width: number, height: number): void {
+    const previousWidth = this.width;
+    const previousHeight = this.height;
+
+    this.width = width;
+    this.height = height;
+    this.accumulation?.resize(width, height);
+
+    // Spread the snowflakes proportionally over the new size
+    for (const snowflake of this.particles) {
+      if (previousWidth > 0 && previousHeight > 0) {
+        snowflake.rescale(width / previousWidth, height / previousHeight);
+      } else {
+        snowflake.scatter(width, height);
+      }
+    }
+
+    // Keep density-based counts in line with the new area
+    const targets = this.getLayerTargets();
+
+    if (this.transition) {
+      for (const [index, target] of this.transition.to.entries()) {
+        target.count = targets[index]?.count ?? target.count;
+      }
+    } else {
+      this.applyLayerTargets(
+        this.layers.map((layer, index) => ({
+          ...layer,
+          count: targets[index]?.count ?? layer.count,
+        }))
+      );
+    }
+  }
+
+  /**
+   * Remove every snowflake
+   */
+  clear(): void {
+    this.transition = null;
+    this.layers = [];
+    this.particles = [];
+  }
+}
@@ -1,159 +1,752 @@
 /**
  * SnowfallCanvas - Main controller for snowfall animation
+ *
+ * Drives a `SnowfallRuntime` (a headless `SnowfallSimulation` tied to a
+ * `Renderer`, on the main thread or in a worker), handling the DOM concerns
+ * (visibility, reduced motion, pixel ratio, resizing and image loading).
+ * It owns every observer and listener it adds, releases them on `destroy`
+ * and destroys itself once its canvas is removed from the document.
  */
 
-import { defaultSnowflakeConfig } from "./config";
-import { Snowflake } from "./snowflake";
-import type { SnowfallCanvasConfig, SnowflakeProps } from "./types";
+import { createRenderer } from "./create-renderer";
+import { loadSnowflakeImages } from "./images";
+import { LocalRuntime } from "./local-runtime";
+import { applyPreset } from "./presets";
+import { unregisterSnowfall } from "./registry";
+import type {
+  Renderer,
+  SnowfallCanvasConfig,
+  SnowfallParallax,
+  SnowfallRuntime,
+  SnowfallStats,
+  SnowfallWindField,
+} from "./types";
+import { FRAME_MS } from "./utils";
+import { reportConfigIssues, validateConfig } from "./validate";
+import { supportsWorkerRendering, WorkerRuntime } from "./worker-runtime";
 
 export class SnowfallCanvas {
   private readonly canvas: HTMLCanvasElement;
-  private readonly ctx: CanvasRenderingContext2D;
+  private readonly runtime: SnowfallRuntime;
   private config: SnowfallCanvasConfig;
-  private snowflakes: Snowflake[] = [];
-  private lastUpdate: number = Date.now();
-  private animationFrame: number | null = null;
-  private readonly targetFps = 60;
+  private width: number;
+  private height: number;
+  private running: boolean;
+  private imageRequest = 0;
+  private paused: boolean;
+  private pausedByUser = false;
+  private isIntersecting: boolean;
+  private readonly reducedMotionQuery: MediaQueryList | null = null;
+  private readonly intersectionObserver: IntersectionObserver | null = null;
+  private readonly resizeObserver: ResizeObserver | null = null;
+  private readonly mutationObserver: MutationObserver | null = null;
+  private attached: boolean;
+  private destroyed: boolean;
+  private parallaxSource: SnowfallParallax["source"] | undefined;
+  private lastScrollY = 0;
+  private pointerOffsetX = 0;
+  private pointerOffsetY = 0;
+  private interactive: boolean;
+  private lastPointer: { time: number; x: number; y: number } | null = null;
+  private accumulationSelector: string | undefined;
+  private surfaceElements: Element[] = [];
 
-  constructor(canvas: HTMLCanvasElement, config?: SnowfallCanvasConfig) {
+  constructor(
+    canvas: HTMLCanvasElement,
+    config?: SnowfallCanvasConfig,
+    renderer?: Renderer
+  ) {
     this.canvas = canvas;
-    const ctx = canvas.getContext("2d");
+    this.config = applyPreset(validateConfig(config ?? {}).config);
 
-    if (!ctx) {
-      throw new Error("Could not get 2D context from canvas");
+    // The initial canvas size is treated as its size in CSS pixels
+    this.width = canvas.width;
+    this.height = canvas.height;
+    this.runtime = this.createRuntime(canvas, renderer);
+    this.running = false;
+    this.paused = true;
+    this.isIntersecting = true;
+    this.interactive = false;
+    this.attached = canvas.isConnected;
+    this.destroyed = false;
+    this.applySize();
+
+    // Follow reduced motion preference changes live
+    if (typeof window.matchMedia === "function") {
+      this.reducedMotionQuery = window.matchMedia(
+        "(prefers-reduced-motion: reduce)"
+      );
+      this.reducedMotionQuery.addEventListener("change", this.sync);
+    }
+
+    // Suspend while the canvas is scrolled out of view
+    if (typeof IntersectionObserver === "function") {
+      this.intersectionObserver = new IntersectionObserver((entries) => {
+        this.isIntersecting = entries.at(-1)?.isIntersecting ?? true;
+        this.sync();
+      });
+      this.intersectionObserver.observe(canvas);
+    }
+
+    // Follow the size of the canvas in CSS pixels
+    if (typeof ResizeObserver === "function") {
+      this.resizeObserver = new ResizeObserver(this.handleResize);
+      this.resizeObserver.observe(canvas);
+    }
+
+    // Tear down once the canvas leaves the document (a canvas that was never
+    // attached is left alone)
+    if (typeof MutationObserver === "function") {
+      this.mutationObserver = new MutationObserver(this.handleMutations);
+      this.mutationObserver.observe(document, {
+        childList: true,
+        subtree: true,
+      });
     }
 
-    this.ctx = ctx;
-    this.config = config ?? {};
+    document.addEventListener("visibilitychange", this.sync);
+    this.bindParallax();
+    this.bindInteraction();
+    this.bindAccumulation();
 
-    // Initialize snowflakes
-    this.createSnowflakes();
+    const { imageUrls, imageLoading } = this.config;
+
+    if (imageUrls?.length) {
+      const waitForImages = (imageLoading ?? "wait") === "wait";
+
+      // Start animation once the images are decoded (or failed to load),
+      // unless it was paused meanwhile
+      this.loadImages(imageUrls).then((isCurrent) => {
+        if (waitForImages && isCurrent && !this.pausedByUser) {
+          this.play();
+        }
+      });
+
+      if (waitForImages) {
+        return;
+      }
+    }
 
     // Start animation
     this.play();
   }
 
   /**
-   * Create the initial set of snowflakes
-   */
-  private createSnowflakes(): void {
-    const {
-      color,
-      radius,
-      speed,
-      wind,
-      changeFrequency,
-      rotationSpeed,
-      opacity,
-      enable3DRotation,
-      images,
-    } = defaultSnowflakeConfig;
-
-    const snowflakeConfig: SnowflakeProps = {
-      changeFrequency: this.config.changeFrequency ?? changeFrequency,
-      color: this.config.color ?? color,
-      enable3DRotation: this.config.enable3DRotation ?? enable3DRotation,
-      images: this.config.images ?? images,
-      opacity: this.config.opacity ?? opacity,
-      radius: this.config.radius ?? radius,
-      rotationSpeed: this.config.rotationSpeed ?? rotationSpeed,
-      speed: this.config.speed ?? speed,
-      wind: this.config.wind ?? wind,
-    };
-
-    this.snowflakes = Snowflake.createSnowflakes(
-      this.config.snowflakeCount ?? 150,
-      snowflakeConfig,
-      this.canvas.width,
-      this.canvas.height
+   * Preload image URLs and swap existing snowflakes over to them
+   */
+  private async loadImages(
+    imageUrls: NonNullable<SnowfallCanvasConfig["imageUrls"]>
+  ): Promise<boolean> {
+    this.imageRequest += 1;
+    const request = this.imageRequest;
+    // WebGL can only upload images the server allows with CORS
+    const loadedImages = await loadSnowflakeImages(
+      imageUrls,
+      this.config.renderer === "webgl" ? "anonymous" : undefined
+    );
+
+    // Ignore stale results if destroyed or the URLs changed meanwhile
+    if (request !== this.imageRequest) {
+      return false;
+    }
+
+    // Keep drawing circles when every image failed to load
+    if (loadedImages.length > 0) {
+      this.runtime.setLoadedImages(loadedImages);
+    }
+
+    return true;
+  }
+
+  /**
+   * Create the runtime, moving rendering to a worker when requested and
+   * supported (custom renderers and clocks always run on the main thread)
+   */
+  private createRuntime(
+    canvas: HTMLCanvasElement,
+    renderer?: Renderer
+  ): SnowfallRuntime {
+    if (this.config.renderMode === "worker" && this.config.clock) {
+      reportConfigIssues([
+        {
+          message:
+            "a clock function cannot be sent to a worker; rendering on the main thread",
+          path: "renderMode",
+        },
+      ]);
+    } else if (
+      !renderer &&
+      this.config.renderMode === "worker" &&
+      supportsWorkerRendering(canvas)
+    ) {
+      try {
+        return new WorkerRuntime(canvas, this.config, this.width, this.height);
+      } catch (err) {
+        reportConfigIssues([
+          {
+            message: `worker rendering failed (${String(err)}); rendering on the main thread`,
+            path: "renderMode",
+          },
+        ]);
+      }
+    }
+
+    return new LocalRuntime(
+      renderer ?? createRenderer(canvas, this.config),
+      this.config,
+      this.width,
+      this.height
     );
   }
 
   /**
-   * Update all snowflakes
+   * Resolve the device pixel ratio to render at
    */
-  private update(): void {
-    const now = Date.now();
-    const msPassed = now - this.lastUpdate;
+  private getPixelRatio(): number {
+    const { pixelRatio = "auto", maxPixelRatio = 2 } = this.config;
+
+    if (pixelRatio !== "auto") {
+      return pixelRatio;
+    }
+
+    return Math.min(window.devicePixelRatio || 1, maxPixelRatio);
+  }
 
-    // Calculate frames passed based on target FPS
-    const framesPassed = msPassed / (1000 / this.targetFps);
+  /**
+   * Resize the renderer to the simulated size at the current pixel ratio
+   */
+  private applySize(): void {
+    this.runtime.resize(this.width, this.height, this.getPixelRatio());
+  }
 
-    // Update each snowflake
-    for (const snowflake of this.snowflakes) {
-      snowflake.update(this.canvas.width, this.canvas.height, framesPassed);
+  /**
+   * Start the animation loop if it is not already running
+   */
+  private start(): void {
+    if (!this.running) {
+      this.running = true;
+      this.runtime.start();
     }
+  }
 
-    this.lastUpdate = now;
+  /**
+   * Stop the animation loop
+   */
+  private stop(): void {
+    if (this.running) {
+      this.running = false;
+      this.runtime.stop();
+    }
   }
 
   /**
-   * Render all snowflakes to canvas
+   * Resolve how the snowfall should move given the reduced motion preference
    */
-  private render(): void {
-    // Clear canvas
-    this.ctx.clearRect(0, 0, this.canvas.width, this.canvas.height);
+  private getMotion(): "animate" | "static" | "none" {
+    const reducedMotion = this.config.reducedMotion ?? "respect";
+
+    if (reducedMotion === "ignore" || !this.reducedMotionQuery?.matches) {
+      return "animate";
+    }
 
-    // Draw all snowflakes
-    // Always draw individually for now (we can optimize later)
-    for (const snowflake of this.snowflakes) {
-      snowflake.draw(this.ctx);
+    return reducedMotion === "static" ? "static" : "none";
+  }
+
+  /**
+   * Check whether the canvas is currently visible to the user
+   */
+  private isVisible(): boolean {
+    if (!(this.config.autoPause ?? true)) {
+      return true;
     }
+
+    return this.isIntersecting && document.visibilityState !== "hidden";
   }
 
   /**
-   * Main animation loop
+   * Start, stop or redraw the animation based on the current state
    */
-  private readonly loop = (): void => {
-    this.update();
-    this.render();
+  private readonly sync = (): void => {
+    if (this.destroyed) {
+      this.stop();
+      return;
+    }
+
+    const motion = this.getMotion();
+
+    if (this.paused || motion !== "animate" || !this.isVisible()) {
+      this.stop();
+    } else {
+      this.start();
+    }
 
-    this.animationFrame = requestAnimationFrame(this.loop);
+    if (motion === "static") {
+      this.runtime.renderStill();
+    } else if (motion === "none") {
+      this.runtime.clear();
+    }
   };
 
   /**
-   * Start or resume the animation
+   * Resize to the observed content box, skipping unchanged sizes. A canvas
+   * the page does not size takes the size of its backing store, so when
+   * that is all that changed its CSS size is pinned instead of growing with
+   * every resize.
    */
-  play(): void {
-    if (this.animationFrame !== null) {
+  private readonly handleResize = (
+    entries: readonly ResizeObserverEntry[]
+  ): void => {
+    const entry = entries.at(-1);
+
+    if (!(entry && this.canvas.isConnected)) {
       return;
     }
 
-    this.lastUpdate = Date.now();
-    this.loop();
+    const width = Math.round(entry.contentRect.width);
+    const height = Math.round(entry.contentRect.height);
+    const ratio = this.getPixelRatio();
+
+    if (
+      width === 0 ||
+      height === 0 ||
+      (width === this.width && height === this.height)
+    ) {
+      return;
+    }
+
+    if (
+      ratio !== 1 &&
+      width === Math.round(this.width * ratio) &&
+      height === Math.round(this.height * ratio)
+    ) {
+      this.canvas.style.width = `${this.width}px`;
+      this.canvas.style.height = `${this.height}px`;
+      return;
+    }
+
+    this.resize(width, height);
+  };
+
+  /**
+   * Destroy the snowfall once its canvas is detached. Checked after the
+   * mutations settle, so a canvas that is only moved (e.g. kept by
+   * `transition:persist`) keeps running.
+   */
+  private readonly handleMutations = (): void => {
+    if (this.canvas.isConnected) {
+      this.attached = true;
+      return;
+    }
+
+    if (!this.attached) {
+      return;
+    }
+
+    this.destroy();
+  };
+
+  /**
+   * Shift layers by the distance scrolled since the last scroll event
+   */
+  private readonly handleScroll = (): void => {
+    const { scrollY } = window;
+    const strength = this.config.parallax?.strength ?? 0.3;
+
+    this.runtime.shift(0, (this.lastScrollY - scrollY) * strength);
+    this.lastScrollY = scrollY;
+  };
+
+  /**
+   * Shift layers away from the pointer, relative to the window center
+   */
+  private readonly handlePointerMove = (event: PointerEvent): void => {
+    const strength = this.config.parallax?.strength ?? 40;
+    const x = (1 - (event.clientX / window.innerWidth) * 2) * strength;
+    const y = (1 - (event.clientY / window.innerHeight) * 2) * strength;
+
+    this.runtime.shift(x - this.pointerOffsetX, y - this.pointerOffsetY);
+    this.pointerOffsetX = x;
+    this.pointerOffsetY = y;
+  };
+
+  /**
+   * Listen to the configured parallax source, if it changed
+   */
+  private bindParallax(): void {
+    const source = this.config.parallax?.source;
+
+    if (source === this.parallaxSource) {
+      return;
+    }
+
+    this.unbindParallax();
+    this.parallaxSource = source;
+
+    if (source === "scroll") {
+      this.lastScrollY = window.scrollY;
+      window.addEventListener("scroll", this.handleScroll, { passive: true });
+    } else if (source === "pointer") {
+      this.pointerOffsetX = 0;
+      this.pointerOffsetY = 0;
+      window.addEventListener("pointermove", this.handlePointerMove, {
+        passive: true,
+      });
+    }
+  }
+
+  /**
+   * Stop listening to the parallax source
+   */
+  private unbindParallax(): void {
+    window.removeEventListener("scroll", this.handleScroll);
+    window.removeEventListener("pointermove", this.handlePointerMove);
+    this.parallaxSource = undefined;
+  }
+
+  /**
+   * Map a viewport position to canvas CSS pixels and hand it to the runtime.
+   * Events are read from the window, so the canvas can ignore pointer events.
+   */
+  private updatePointer(clientX: number, clientY: number, time: number): void {
+    const rect = this.canvas.getBoundingClientRect();
+
+    if (rect.width === 0 || rect.height === 0) {
+      return;
+    }
+
+    // Account for the canvas being scaled by CSS
+    const x = ((clientX - rect.left) / rect.width) * this.width;
+    const y = ((clientY - rect.top) / rect.height) * this.height;
+    let vx = 0;
+    let vy = 0;
+
+    // Velocity in pixels per second, over at least a frame
+    if (this.lastPointer) {
+      const seconds = Math.max(time - this.lastPointer.time, FRAME_MS) / 1000;
+      vx = (x - this.lastPointer.x) / seconds;
+      vy = (y - this.lastPointer.y) / seconds;
+    }
+
+    this.lastPointer = { time, x, y };
+    this.runtime.setPointer({ vx, vy, x, y });
+  }
+
+  /**
+   * Follow the mouse, pen or a touch
+   */
+  private readonly handlePointer = (event: PointerEvent): void => {
+    this.updatePointer(event.clientX, event.clientY, event.timeStamp);
+  };
+
+  /**
+   * Follow touches that the browser took over for scrolling, which stop
+   * firing pointer events
+   */
+  private readonly handleTouch = (event: TouchEvent): void => {
+    const [touch] = event.touches;
+
+    if (touch) {
+      this.updatePointer(touch.clientX, touch.clientY, event.timeStamp);
+    }
+  };
+
+  /**
+   * Forget the pointer once it leaves the page or a touch ends
+   */
+  private readonly handlePointerEnd = (event: Event): void => {
+    // A mouse keeps hovering after a click
+    if (
+      event instanceof PointerEvent &&
+      event.pointerType === "mouse" &&
+      event.type === "pointerup"
+    ) {
+      return;
+    }
+
+    this.lastPointer = null;
+    this.runtime.setPointer(null);
+  };
+
+  /**
+   * Listen to pointer and touch events when `interaction` is set
+   */
+  private bindInteraction(): void {
+    const interactive = this.config.interaction !== undefined;
+
+    if (interactive === this.interactive) {
+      return;
+    }
+
+    this.interactive = interactive;
+
+    if (!interactive) {
+      this.unbindInteraction();
+      return;
+    }
+
+    const options = { passive: true };
+    window.addEventListener("pointermove", this.handlePointer, options);
+    window.addEventListener("pointerdown", this.handlePointer, options);
+    window.addEventListener("pointerup", this.handlePointerEnd, options);
+    window.addEventListener("touchmove", this.handleTouch, options);
+    window.addEventListener("touchend", this.handlePointerEnd, options);
+    window.addEventListener("touchcancel", this.handlePointerEnd, options);
+    document.documentElement.addEventListener(
+      "pointerleave",
+      this.handlePointerEnd
+    );
+  }
+
+  /**
+   * Stop listening to pointer and touch events
+   */
+  private unbindInteraction(): void {
+    window.removeEventListener("pointermove", this.handlePointer);
+    window.removeEventListener("pointerdown", this.handlePointer);
+    window.removeEventListener("pointerup", this.handlePointerEnd);
+    window.removeEventListener("touchmove", this.handleTouch);
+    window.removeEventListener("touchend", this.handlePointerEnd);
+    window.removeEventListener("touchcancel", this.handlePointerEnd);
+    document.documentElement.removeEventListener(
+      "pointerleave",
+      this.handlePointerEnd
+    );
+    this.interactive = false;
+    this.lastPointer = null;
+    this.runtime.setPointer(null);
+  }
+
+  /**
+   * Project the tracked elements into canvas space so snow settles on them
+   */
+  private readonly updateSurfaces = (): void => {
+    const canvasRect = this.canvas.getBoundingClientRect();
+
+    if (canvasRect.width === 0 || canvasRect.height === 0) {
+      return;
+    }
+
+    const scaleX = this.width / canvasRect.width;
+    const scaleY = this.height / canvasRect.height;
+
+    this.runtime.setSurfaces(
+      this.surfaceElements.map((element) => {
+        const rect = element.getBoundingClientRect();
+
+        return {
+          left: (rect.left - canvasRect.left) * scaleX,
+          top: (rect.top - canvasRect.top) * scaleY,
+          width: rect.width * scaleX,
+        };
+      })
+    );
+  };
+
+  /**
+   * Track the elements matching the accumulation selector, if it changed
+   */
+  private bindAccumulation(): void {
+    const selector = this.config.accumulation?.selector;
+
+    if (selector === this.accumulationSelector) {
+      return;
+    }
+
+    this.unbindAccumulation();
+    this.accumulationSelector = selector;
+
+    if (!selector) {
+      return;
+    }
+
+    this.surfaceElements = [...document.querySelectorAll(selector)];
+
+    // Capture scrolling of nested containers too
+    window.addEventListener("scroll", this.updateSurfaces, {
+      capture: true,
+      passive: true,
+    });
+    window.addEventListener("resize", this.updateSurfaces, { passive: true });
+    this.updateSurfaces();
+  }
+
+  /**
+   * Stop tracking elements for accumulation
+   */
+  private unbindAccumulation(): void {
+    window.removeEventListener("scroll", this.updateSurfaces, {
+      capture: true,
+    });
+    window.removeEventListener("resize", this.updateSurfaces);
+
+    if (this.surfaceElements.length > 0) {
+      this.surfaceElements = [];
+      this.runtime.setSurfaces([]);
+    }
+
+    this.accumulationSelector = undefined;
+  }
+
+  /**
+   * Start or resume the animation
+   */
+  play(): void {
+    this.paused = false;
+    this.pausedByUser = false;
+    this.sync();
   }
 
   /**
    * Pause the animation
    */
   pause(): void {
-    if (this.animationFrame !== null) {
-      cancelAnimationFrame(this.animationFrame);
-      this.animationFrame = null;
-    }
+    this.paused = true;
+    this.pausedByUser = true;
+    this.sync();
   }
 
   /**
-   * Update the configuration and recreate snowflakes
+   * Merge a partial configuration into the current one, keeping the existing
+   * snowflakes and transitioning over `transitionMs` when set
    */
   updateConfig(config: SnowfallCanvasConfig): void {
-    this.config = config;
-    this.createSnowflakes();
+    if (this.destroyed) {
+      return;
+    }
+
+    const previous = this.config;
+    const { renderer, ...update } = applyPreset(
+      validateConfig(config).config,
+      previous.preset
+    );
+
+    // The canvas keeps the context it was first drawn with
+    if (renderer && renderer !== (previous.renderer ?? "2d")) {
+      reportConfigIssues([
+        {
+          message: `the renderer is fixed when the canvas is created; keeping "${previous.renderer ?? "2d"}"`,
+          path: "renderer",
+        },
+      ]);
+    }
+
+    const current = { ...previous, ...update };
+
+    this.config = current;
+    this.runtime.updateConfig(update);
+    this.bindParallax();
+    this.bindInteraction();
+    this.bindAccumulation();
+
+    if (
+      current.pixelRatio !== previous.pixelRatio ||
+      current.maxPixelRatio !== previous.maxPixelRatio
+    ) {
+      this.applySize();
+    }
+
+    if (current.imageUrls !== previous.imageUrls) {
+      this.imageRequest += 1;
+      this.runtime.setLoadedImages([]);
+
+      if (current.imageUrls?.length) {
+        this.loadImages(current.imageUrls);
+      }
+    }
+
+    this.sync();
+  }
+
+  /**
+   * Change the global wind right away, merging into the current wind field.
+   * Snowflakes ease into the new wind. Pass `null` to return to
+   * per-snowflake random wind.
+   */
+  setWind(wind: SnowfallWindField | null): void {
+    const windField = wind ? { ...this.config.windField, ...wind } : undefined;
+
+    this.config = { ...this.config, windField };
+    this.runtime.setWind(windField);
+  }
+
+  /**
+   * Ease the share of active snowflakes to a value from 0 to 1 over a
+   * duration in milliseconds (right away by default)
+   *
+   * @example
+   * snowfall.setIntensity(0.2, 5000); // Taper off to a light flurry
+   */
+  setIntensity(intensity: number, durationMs = 0): void {
+    this.config = { ...this.config, intensity };
+    this.runtime.setIntensity(intensity, durationMs);
+  }
+
+  /**
+   * Remove all settled snow
+   */
+  clearAccumulation(): void {
+    this.runtime.clearAccumulation();
+  }
+
+  /**
+   * Get the frame rate, frame time and number of active snowflakes, measured
+   * over the last half second of animation
+   *
+   * @example
+   * const { fps, activeFlakes } = snowfall.getStats();
+   */
+  getStats(): SnowfallStats {
+    return this.runtime.getStats();
   }
 
   /**
    * Resize the canvas and update snowflakes
    */
   resize(width: number, height: number): void {
-    this.canvas.width = width;
-    this.canvas.height = height;
+    if (this.destroyed) {
+      return;
+    }
+
+    this.width = width;
+    this.height = height;
+    this.applySize();
+    this.updateSurfaces();
+
+    // Resizing clears the canvas, so redraw the still frame
+    if (this.getMotion() === "static") {
+      this.runtime.renderStill();
+    }
   }
 
   /**
-   * Cleanup and stop animation
+   * Whether `destroy` was called, by hand or after the canvas was detached
+   */
+  get isDestroyed(): boolean {
+    return this.destroyed;
+  }
+
+  /**
+   * Stop the animation, clear the canvas, release every observer and
+   * listener, and unregister (dispatching `snowfall:destroy`). Calling it
+   * again does nothing.
    */
   destroy(): void {
+    if (this.destroyed) {
+      return;
+    }
+
+    this.destroyed = true;
+    this.imageRequest += 1;
     this.pause();
-    this.snowflakes = [];
+    this.reducedMotionQuery?.removeEventListener("change", this.sync);
+    this.intersectionObserver?.disconnect();
+    this.resizeObserver?.disconnect();
+    this.mutationObserver?.disconnect();
+    document.removeEventListener("visibilitychange", this.sync);
+    this.unbindParallax();
+    this.unbindInteraction();
+    this.unbindAccumulation();
+    this.runtime.destroy();
+    unregisterSnowfall(this.canvas, this);
   }
 }
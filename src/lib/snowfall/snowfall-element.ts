@@ -0,0 +1,219 @@
+/**
+ * SnowfallElement - The `<snow-fall>` custom element, for plain HTML and
+ * frameworks without a dedicated wrapper
+ *
+ * @example
+ * <snow-fall color="#fff" snowflake-count="200" speed="60,180"></snow-fall>
+ */
+
+import { mountSnowfall, type SnowfallController } from "./mount";
+import type { SnowfallCanvas } from "./snowfall-canvas";
+import type { SnowfallCanvasConfig } from "./types";
+
+declare global {
+  interface HTMLElementTagNameMap {
+    "snow-fall": SnowfallElement;
+  }
+}
+
+/**
+ * Parse an attribute value into a config value
+ */
+type AttributeParser = (value: string) => unknown;
+
+const parseString: AttributeParser = (value) => value;
+
+// Invalid numbers are reported and ignored by the config validation
+const parseNumber: AttributeParser = (value) => Number(value);
+
+const parseBoolean: AttributeParser = (value) => value !== "false";
+
+/** `"120"` for a fixed value or `"60,180"` for a range */
+const parseRange: AttributeParser = (value) => {
+  const ends = value.split(",").map((end) => Number(end.trim()));
+  return ends.length === 1 ? ends[0] : ends;
+};
+
+const parseList: AttributeParser = (value) =>
+  value
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+/** Numeric seeds as numbers, so `seed="42"` matches `seed: 42` */
+const parseSeed: AttributeParser = (value) =>
+  value.trim() !== "" && Number.isFinite(Number(value)) ? Number(value) : value;
+
+const parsePixelRatio: AttributeParser = (value) =>
+  value === "auto" ? value : Number(value);
+
+const parseJson: AttributeParser = (value) => {
+  try {
+    return JSON.parse(value);
+  } catch {
+    console.warn(`Ignoring invalid JSON snowfall attribute: ${value}`);
+  }
+};
+
+/** A boolean, or JSON for an object of options */
+const parseFlag: AttributeParser = (value) =>
+  value.trim().startsWith("{") ? parseJson(value) : parseBoolean(value);
+
+/**
+ * The config option and parser of each observed attribute
+ */
+const attributes: Record<
+  string,
+  [keyof SnowfallCanvasConfig, AttributeParser]
+> = {
+  accumulation: ["accumulation", parseJson],
+  "adaptive-quality": ["adaptiveQuality", parseFlag],
+  "auto-pause": ["autoPause", parseBoolean],
+  batching: ["batching", parseString],
+  blur: ["blur", parseNumber],
+  "change-frequency": ["changeFrequency", parseNumber],
+  color: ["color", parseString],
+  "correlate-depth": ["correlateDepth", parseBoolean],
+  "crystal-complexity": ["crystalComplexity", parseNumber],
+  "enable-3d-rotation": ["enable3DRotation", parseBoolean],
+  "image-loading": ["imageLoading", parseString],
+  "image-urls": ["imageUrls", parseList],
+  intensity: ["intensity", parseNumber],
+  interaction: ["interaction", parseJson],
+  layers: ["layers", parseJson],
+  "max-fps": ["maxFps", parseNumber],
+  "max-pixel-ratio": ["maxPixelRatio", parseNumber],
+  opacity: ["opacity", parseRange],
+  parallax: ["parallax", parseJson],
+  "pixel-ratio": ["pixelRatio", parsePixelRatio],
+  preset: ["preset", parseString],
+  radius: ["radius", parseRange],
+  "reduced-motion": ["reducedMotion", parseString],
+  "render-mode": ["renderMode", parseString],
+  renderer: ["renderer", parseString],
+  "rotation-speed": ["rotationSpeed", parseRange],
+  seed: ["seed", parseSeed],
+  shape: ["shape", parseString],
+  "snowflake-count": ["snowflakeCount", parseNumber],
+  "snowflake-density": ["snowflakeDensity", parseNumber],
+  speed: ["speed", parseRange],
+  timeline: ["timeline", parseJson],
+  "transition-ms": ["transitionMs", parseNumber],
+  wind: ["wind", parseRange],
+  "wind-field": ["windField", parseJson],
+};
+
+const styles = `
+  :host {
+    display: block;
+  }
+
+  canvas {
+    display: block;
+    width: 100%;
+    height: 100%;
+  }
+`;
+
+/**
+ * Snowfall as a custom element. Attributes are the kebab-case config
+ * options (`speed="60,180"`, JSON for objects); the `config` property takes
+ * any option, including decoded `images`, and wins over attributes.
+ */
+export class SnowfallElement extends HTMLElement {
+  static readonly observedAttributes = Object.keys(attributes);
+
+  private readonly root: ShadowRoot;
+  private controller: SnowfallController | null = null;
+  private properties: SnowfallCanvasConfig = {};
+
+  constructor() {
+    super();
+    this.root = this.attachShadow({ mode: "open" });
+
+    const style = document.createElement("style");
+    style.textContent = styles;
+    this.root.append(style);
+  }
+
+  /**
+   * Options set from JavaScript, applied over the attributes
+   */
+  get config(): SnowfallCanvasConfig {
+    return this.properties;
+  }
+
+  set config(config: SnowfallCanvasConfig) {
+    this.properties = config;
+    this.update();
+  }
+
+  /**
+   * Decoded images to draw instead of circles
+   */
+  get images(): SnowfallCanvasConfig["images"] {
+    return this.properties.images;
+  }
+
+  set images(images: SnowfallCanvasConfig["images"]) {
+    this.properties = { ...this.properties, images };
+    this.update();
+  }
+
+  /**
+   * The snowfall instance while the element is connected
+   */
+  get snowfall(): SnowfallCanvas | null {
+    return this.controller?.snowfall ?? null;
+  }
+
+  connectedCallback(): void {
+    // A new canvas each time, since rendering in a worker takes over a
+    // canvas for good
+    const canvas = document.createElement("canvas");
+    canvas.setAttribute("part", "canvas");
+    this.root.append(canvas);
+    this.controller = mountSnowfall(canvas, this.getConfig());
+  }
+
+  disconnectedCallback(): void {
+    this.controller?.destroy();
+    this.controller?.canvas.remove();
+    this.controller = null;
+  }
+
+  attributeChangedCallback(): void {
+    this.update();
+  }
+
+  /**
+   * Combine the attributes and the `config` property
+   */
+  private getConfig(): SnowfallCanvasConfig {
+    const fromAttributes = Object.entries(attributes).flatMap(
+      ([name, [key, parse]]) => {
+        const value = this.getAttribute(name);
+        return value === null ? [] : [[key, parse(value)]];
+      }
+    );
+
+    return { ...Object.fromEntries(fromAttributes), ...this.properties };
+  }
+
+  /**
+   * Pass changed options to the running snowfall
+   */
+  private update(): void {
+    this.controller?.update(this.getConfig());
+  }
+}
+
+/**
+ * Define the custom element (once per tag name), as `<snow-fall>` by default
+ */
+export const defineSnowfallElement = (tagName = "snow-fall"): void => {
+  if (!customElements.get(tagName)) {
+    // A constructor can only be registered once, so each name gets its own
+    customElements.define(tagName, class extends SnowfallElement {});
+  }
+};
@@ -0,0 +1,102 @@
+/**
+ * Snowfall worker - Runs the snowfall loop on an OffscreenCanvas
+ * transferred from the main thread by `WorkerRuntime`
+ */
+
+import { createRenderer } from "./create-renderer";
+import { LocalRuntime } from "./local-runtime";
+import type {
+  SnowfallWorkerMessage,
+  SnowfallWorkerReply,
+} from "./worker-runtime";
+
+let runtime: LocalRuntime | null = null;
+
+/**
+ * Send a message to the main thread
+ */
+const reply = (message: SnowfallWorkerReply): void => {
+  self.postMessage(message);
+};
+
+/**
+ * Handle a message from the main thread
+ */
+const handleMessage = (message: SnowfallWorkerMessage): void => {
+  switch (message.type) {
+    case "init": {
+      const { canvas, config, width, height } = message;
+      runtime = new LocalRuntime(
+        createRenderer(canvas, config),
+        config,
+        width,
+        height,
+        (stats) => reply({ stats, type: "stats" })
+      );
+      break;
+    }
+    case "start":
+      runtime?.start();
+      break;
+    case "stop":
+      runtime?.stop();
+      break;
+    case "renderStill":
+      runtime?.renderStill();
+      break;
+    case "clear":
+      runtime?.clear();
+      break;
+    case "updateConfig":
+      runtime?.updateConfig(message.config);
+      break;
+    case "resize":
+      runtime?.resize(message.width, message.height, message.pixelRatio);
+      break;
+    case "shift":
+      runtime?.shift(message.dx, message.dy);
+      break;
+    case "clearAccumulation":
+      runtime?.clearAccumulation();
+      break;
+    case "setSurfaces":
+      runtime?.setSurfaces(message.rects);
+      break;
+    case "setWind":
+      runtime?.setWind(message.wind);
+      break;
+    case "setIntensity":
+      runtime?.setIntensity(message.intensity, message.durationMs);
+      break;
+    case "setPointer":
+      runtime?.setPointer(message.pointer);
+      break;
+    case "setLoadedImages":
+      runtime?.setLoadedImages(message.images);
+      break;
+    case "destroy":
+      // Clear the canvas before the worker goes away
+      runtime?.destroy();
+      runtime = null;
+      self.close();
+      break;
+    default:
+      break;
+  }
+};
+
+// Report errors to the main thread, which would otherwise only see a blank
+// canvas
+self.addEventListener(
+  "message",
+  (event: MessageEvent<SnowfallWorkerMessage>) => {
+    try {
+      handleMessage(event.data);
+    } catch (err) {
+      reply({
+        message: err instanceof Error ? err.message : String(err),
+        type: "error",
+      });
+    }
+  }
+);
@@ -1,95 +1,296 @@
 /**
- * Snowflake class - Individual snowflake entity with physics and rendering
+ * Snowflake class - Individual snowflake entity with physics
  */
 
-import type { SnowflakeParams, SnowflakeProps } from "./types";
-import { degreesToRadians, lerp, random, randomElement, TWO_PI } from "./utils";
+import { normalizeImages } from "./images";
+import { usesVariant } from "./shapes";
+import type {
+  SnowflakeImageSource,
+  SnowflakeParams,
+  SnowflakeProps,
+} from "./types";
+import {
+  FRAME_MS,
+  lerp,
+  type RandomSource,
+  random,
+  remapRange,
+  weightedRandomElement,
+} from "./utils";
+
+/** Share of the interaction push kept after each 60 fps frame */
+const PUSH_DECAY = 0.9;
+
+/** Share of the gap to a wind field sample closed each 60 fps frame */
+const WIND_RESPONSE = 0.05;
+
+/**
+ * Pick a weighted random image, if any are available
+ */
+const pickImage = (
+  images: SnowflakeImageSource[],
+  rng: RandomSource
+): SnowflakeImageSource | undefined =>
+  images.length > 0
+    ? weightedRandomElement(images, (image) => image.weight ?? 1, rng)
+    : undefined;
 
 export class Snowflake {
-  private readonly config: SnowflakeProps;
+  private config: SnowflakeProps;
   private readonly params: SnowflakeParams;
+  private readonly rng: RandomSource;
 
   constructor(
     config: SnowflakeProps,
     canvasWidth: number,
-    canvasHeight: number
+    canvasHeight: number,
+    rng: RandomSource = Math.random
   ) {
     this.config = config;
+    this.rng = rng;
 
     // Initialize random starting position and properties
-    const [minRadius, maxRadius] = config.radius;
+    const image = pickImage(normalizeImages(config.images), rng);
+    const [minRadius, maxRadius] = image?.radius ?? config.radius;
     const [minSpeed, maxSpeed] = config.speed;
     const [minWind, maxWind] = config.wind;
     const [minRotation, maxRotation] = config.rotationSpeed;
     const [minOpacity, maxOpacity] = config.opacity;
 
     this.params = {
-      framesSinceLastUpdate: 0,
-      image: config.images ? randomElement(config.images) : undefined,
-      nextSpeed: random(minSpeed, maxSpeed),
-      nextWind: random(minWind, maxWind),
-      opacity: random(minOpacity, maxOpacity),
-      radius: random(minRadius, maxRadius),
-      rotation: random(0, 360),
-      rotationSpeed: random(minRotation, maxRotation),
-      rotationX: random(0, 360),
-      rotationY: random(0, 360),
-      rotationZ: random(0, 360),
-      speed: random(minSpeed, maxSpeed),
-      wind: random(minWind, maxWind),
-      x: random(0, canvasWidth),
-      y: random(-canvasHeight, 0), // Start above the visible area
+      depth: 0,
+      image: image?.image,
+      msSinceLastUpdate: 0,
+      nextSpeed: random(minSpeed, maxSpeed, this.rng),
+      nextWind: random(minWind, maxWind, this.rng),
+      opacity: random(minOpacity, maxOpacity, this.rng),
+      pushX: 0,
+      pushY: 0,
+      radius: random(minRadius, maxRadius, this.rng),
+      rotation: random(0, 360, this.rng),
+      rotationSpeed: random(minRotation, maxRotation, this.rng),
+      rotationX: random(0, 360, this.rng),
+      rotationY: random(0, 360, this.rng),
+      rotationZ: random(0, 360, this.rng),
+      speed: random(minSpeed, maxSpeed, this.rng),
+      wind: random(minWind, maxWind, this.rng),
+      x: random(0, canvasWidth, this.rng),
+      y: random(-canvasHeight, 0, this.rng), // Start above the visible area
     };
+
+    // Drawn last so seeded scenes without depth correlation are unchanged
+    this.params.depth = this.rng();
+
+    if (usesVariant(config.shape)) {
+      this.params.variant = this.rng();
+    }
+
+    if (config.correlateDepth) {
+      this.applyDepth(config, image?.radius ?? config.radius);
+      this.params.speed = this.params.nextSpeed;
+    }
+  }
+
+  /**
+   * Derive radius, opacity and target speed from the snowflake's depth
+   */
+  private applyDepth(
+    config: SnowflakeProps,
+    [minRadius, maxRadius]: [number, number]
+  ): void {
+    const { depth } = this.params;
+    const [minOpacity, maxOpacity] = config.opacity;
+    const [minSpeed, maxSpeed] = config.speed;
+
+    this.params.radius = lerp(minRadius, maxRadius, depth);
+    this.params.opacity = lerp(minOpacity, maxOpacity, depth);
+    this.params.nextSpeed = lerp(minSpeed, maxSpeed, depth);
   }
 
   /**
-   * Update snowflake position and properties based on physics
+   * Swap the image used by this snowflake, e.g. once images finish loading.
+   * Passing an empty array reverts the snowflake to a circle.
+   */
+  setImages(images: SnowflakeImageSource[]): void {
+    const image = pickImage(images, this.rng);
+    this.params.image = image?.image;
+
+    if (image?.radius) {
+      const [minRadius, maxRadius] = image.radius;
+      this.params.radius = random(minRadius, maxRadius, this.rng);
+    }
+  }
+
+  /**
+   * Apply a new config in place, keeping the snowflake's position and its
+   * relative place within each range, and re-targeting speed and wind
+   */
+  updateConfig(config: SnowflakeProps): void {
+    const previous = this.config;
+    this.config = config;
+
+    if (config.images !== previous.images) {
+      this.setImages(normalizeImages(config.images));
+    }
+
+    if (usesVariant(config.shape) && this.params.variant === undefined) {
+      this.params.variant = this.rng();
+    }
+
+    this.params.rotationSpeed = remapRange(
+      this.params.rotationSpeed,
+      previous.rotationSpeed,
+      config.rotationSpeed,
+      this.rng
+    );
+    this.params.nextWind = remapRange(
+      this.params.nextWind,
+      previous.wind,
+      config.wind,
+      this.rng
+    );
+
+    if (config.correlateDepth) {
+      this.applyDepth(config, config.radius);
+      return;
+    }
+
+    this.params.radius = remapRange(
+      this.params.radius,
+      previous.radius,
+      config.radius,
+      this.rng
+    );
+    this.params.opacity = remapRange(
+      this.params.opacity,
+      previous.opacity,
+      config.opacity,
+      this.rng
+    );
+    this.params.nextSpeed = remapRange(
+      this.params.nextSpeed,
+      previous.speed,
+      config.speed,
+      this.rng
+    );
+  }
+
+  /**
+   * Place the snowflake at a random position inside the visible area
+   */
+  scatter(canvasWidth: number, canvasHeight: number): void {
+    this.params.x = random(0, canvasWidth, this.rng);
+    this.params.y = random(0, canvasHeight, this.rng);
+  }
+
+  /**
+   * Send the snowflake back above the visible area, e.g. once it settled
+   */
+  respawn(canvasWidth: number): void {
+    this.params.x = random(0, canvasWidth, this.rng);
+    this.params.y = -this.params.radius;
+    this.params.pushX = 0;
+    this.params.pushY = 0;
+  }
+
+  /**
+   * Move the snowflake, e.g. for parallax. Snowflakes pushed off the top
+   * re-enter from the bottom, and the reverse is handled by `update`.
+   */
+  translate(dx: number, dy: number, canvasHeight: number): void {
+    const { radius, y } = this.params;
+
+    this.params.x += dx;
+    this.params.y += dy;
+
+    if (y >= -radius && this.params.y < -radius) {
+      this.params.y += canvasHeight + radius * 2;
+    }
+  }
+
+  /**
+   * Add velocity from an interaction, e.g. the pointer pushing the snowflake
+   */
+  push(dx: number, dy: number): void {
+    this.params.pushX += dx;
+    this.params.pushY += dy;
+  }
+
+  /**
+   * Scale the snowflake position, e.g. when the canvas is resized
+   */
+  rescale(scaleX: number, scaleY: number): void {
+    this.params.x *= scaleX;
+    this.params.y *= scaleY;
+  }
+
+  /**
+   * Update snowflake position and properties based on physics over the
+   * elapsed milliseconds. When a wind field sample is given, the snowflake
+   * drifts with it instead of towards its own random wind target.
+   * Returns whether the snowflake fell past the bottom and wrapped to the top.
    */
   update(
     canvasWidth: number,
     canvasHeight: number,
-    framesPassed: number
-  ): void {
+    dtMs: number,
+    fieldWind?: number
+  ): boolean {
     const { speed, wind, nextSpeed, nextWind, rotationSpeed } = this.params;
     const { changeFrequency } = this.config;
+    const seconds = dtMs / 1000;
+    const framesPassed = dtMs / FRAME_MS;
 
     // Update rotation
-    this.params.rotation += rotationSpeed * framesPassed;
+    this.params.rotation += rotationSpeed * seconds;
     this.params.rotation %= 360;
 
     // Update 3D rotations
     if (this.config.enable3DRotation) {
-      this.params.rotationX += rotationSpeed * framesPassed * 0.5;
-      this.params.rotationY += rotationSpeed * framesPassed * 0.3;
-      this.params.rotationZ += rotationSpeed * framesPassed;
+      this.params.rotationX += rotationSpeed * seconds * 0.5;
+      this.params.rotationY += rotationSpeed * seconds * 0.3;
+      this.params.rotationZ += rotationSpeed * seconds;
       this.params.rotationX %= 360;
       this.params.rotationY %= 360;
       this.params.rotationZ %= 360;
     }
 
     // Lerp towards target speed and wind
-    const lerpAmount = framesPassed / changeFrequency;
+    const lerpAmount = Math.min(dtMs / changeFrequency, 1);
     this.params.speed = lerp(speed, nextSpeed, lerpAmount);
-    this.params.wind = lerp(wind, nextWind, lerpAmount);
+    this.params.wind =
+      fieldWind === undefined
+        ? lerp(wind, nextWind, lerpAmount)
+        : lerp(wind, fieldWind, Math.min(framesPassed * WIND_RESPONSE, 1));
 
     // Update position
-    this.params.y += this.params.speed * framesPassed;
-    this.params.x += this.params.wind * framesPassed;
+    this.params.y += (this.params.speed + this.params.pushY) * seconds;
+    this.params.x += (this.params.wind + this.params.pushX) * seconds;
+
+    // Let interaction pushes fade out
+    const decay = PUSH_DECAY ** framesPassed;
+    this.params.pushX *= decay;
+    this.params.pushY *= decay;
 
-    // Update frame counter
-    this.params.framesSinceLastUpdate += framesPassed;
+    // Update elapsed time
+    this.params.msSinceLastUpdate += dtMs;
 
     // Generate new target values when change frequency is reached
-    if (this.params.framesSinceLastUpdate >= changeFrequency) {
+    if (this.params.msSinceLastUpdate >= changeFrequency) {
       const [minSpeed, maxSpeed] = this.config.speed;
       const [minWind, maxWind] = this.config.wind;
-      this.params.nextSpeed = random(minSpeed, maxSpeed);
-      this.params.nextWind = random(minWind, maxWind);
-      this.params.framesSinceLastUpdate = 0;
+
+      // Depth-correlated snowflakes keep the speed matching their depth
+      this.params.nextSpeed = this.config.correlateDepth
+        ? lerp(minSpeed, maxSpeed, this.params.depth)
+        : random(minSpeed, maxSpeed, this.rng);
+      this.params.nextWind = random(minWind, maxWind, this.rng);
+      this.params.msSinceLastUpdate = 0;
     }
 
     // Wrap around edges
-    if (this.params.y > canvasHeight) {
+    const wrapped = this.params.y > canvasHeight;
+    if (wrapped) {
       this.params.y = -this.params.radius;
     }
 
@@ -98,94 +299,22 @@ export class Snowflake {
     } else if (this.params.x < -this.params.radius) {
       this.params.x = canvasWidth + this.params.radius;
     }
-  }
 
-  /**
-   * Draw the snowflake as a circle
-   */
-  drawCircle(ctx: CanvasRenderingContext2D): void {
-    ctx.save();
-    ctx.globalAlpha = this.params.opacity;
-    ctx.beginPath();
-    ctx.arc(this.params.x, this.params.y, this.params.radius, 0, TWO_PI);
-    ctx.fillStyle = this.config.color;
-    ctx.closePath();
-    ctx.fill();
-    ctx.restore();
+    return wrapped;
   }
 
   /**
-   * Draw the snowflake as a circle with 3D rotation effect
+   * Get the current snowflake state, e.g. for rendering
    */
-  drawCircle3D(ctx: CanvasRenderingContext2D): void {
-    ctx.save();
-    ctx.globalAlpha = this.params.opacity;
-
-    // Apply 3D transformation
-    ctx.translate(this.params.x, this.params.y);
-
-    // Calculate scale based on rotation (perspective effect)
-    const rotX = degreesToRadians(this.params.rotationX);
-    const rotY = degreesToRadians(this.params.rotationY);
-    const scaleX = Math.cos(rotY);
-    const scaleY = Math.cos(rotX);
-
-    ctx.scale(scaleX, scaleY);
-
-    ctx.beginPath();
-    ctx.arc(0, 0, this.params.radius, 0, TWO_PI);
-    ctx.fillStyle = this.config.color;
-    ctx.closePath();
-    ctx.fill();
-
-    ctx.restore();
+  getParams(): Readonly<SnowflakeParams> {
+    return this.params;
   }
 
   /**
-   * Draw the snowflake as an image
+   * Get the snowflake config currently applied
    */
-  drawImage(ctx: CanvasRenderingContext2D): void {
-    if (!this.params.image) {
-      return;
-    }
-
-    ctx.save();
-    ctx.globalAlpha = this.params.opacity;
-    ctx.translate(this.params.x, this.params.y);
-
-    if (this.config.enable3DRotation) {
-      // Apply 3D rotation transformations
-      const rotX = degreesToRadians(this.params.rotationX);
-      const rotY = degreesToRadians(this.params.rotationY);
-      const rotZ = degreesToRadians(this.params.rotationZ);
-
-      // Simple 3D projection
-      const scaleX = Math.cos(rotY) * Math.cos(rotZ);
-      const scaleY = Math.cos(rotX) * Math.cos(rotZ);
-
-      ctx.scale(scaleX, scaleY);
-    } else {
-      // Simple 2D rotation
-      ctx.rotate(degreesToRadians(this.params.rotation));
-    }
-
-    const size = this.params.radius * 2;
-    ctx.drawImage(this.params.image, -size / 2, -size / 2, size, size);
-
-    ctx.restore();
-  }
-
-  /**
-   * Draw the snowflake to the canvas
-   */
-  draw(ctx: CanvasRenderingContext2D): void {
-    if (this.params.image) {
-      this.drawImage(ctx);
-    } else if (this.config.enable3DRotation) {
-      this.drawCircle3D(ctx);
-    } else {
-      this.drawCircle(ctx);
-    }
+  getConfig(): Readonly<SnowflakeProps> {
+    return this.config;
   }
 
   /**
@@ -195,11 +324,12 @@ export class Snowflake {
     count: number,
     config: SnowflakeProps,
     canvasWidth: number,
-    canvasHeight: number
+    canvasHeight: number,
+    rng: RandomSource = Math.random
   ): Snowflake[] {
     return Array.from(
       { length: count },
-      () => new Snowflake(config, canvasWidth, canvasHeight)
+      () => new Snowflake(config, canvasWidth, canvasHeight, rng)
     );
   }
 }
@@ -0,0 +1,123 @@
+/**
+ * SpriteAtlas - Cache of pre-rasterized circle sprites, bucketed by color,
+ * radius and blur, so circles can be drawn with a cheap `drawImage`
+ */
+
+import { TWO_PI } from "./utils";
+
+/**
+ * A pre-rasterized circle
+ */
+export interface Sprite {
+  /** The canvas holding the rasterized circle */
+  canvas: HTMLCanvasElement | OffscreenCanvas;
+  /** The radius of the circle in CSS pixels */
+  radius: number;
+  /** The width and height of the sprite in CSS pixels, including padding and blur */
+  size: number;
+}
+
+/** Radius buckets are spaced this many CSS pixels apart */
+const RADIUS_STEP = 0.5;
+
+/** Padding around each circle so antialiased edges are not clipped */
+const PADDING = 1;
+
+/** Drop the cache past this many sprites (e.g. during color transitions) */
+const MAX_SPRITES = 256;
+
+/**
+ * Create a canvas that works both on the main thread and in workers
+ */
+export const createCanvas = (
+  width: number,
+  height: number
+): HTMLCanvasElement | OffscreenCanvas => {
+  if (typeof OffscreenCanvas === "function") {
+    return new OffscreenCanvas(width, height);
+  }
+
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+/**
+ * Round a radius up to its bucket so sprites are only ever scaled down
+ */
+export const getRadiusBucket = (radius: number): number =>
+  Math.max(RADIUS_STEP, Math.ceil(radius / RADIUS_STEP) * RADIUS_STEP);
+
+export class SpriteAtlas {
+  private readonly sprites = new Map<string, Sprite>();
+  private pixelRatio = 1;
+
+  /**
+   * Set the pixel ratio sprites are rasterized at, dropping stale sprites
+   */
+  setPixelRatio(pixelRatio: number): void {
+    if (pixelRatio !== this.pixelRatio) {
+      this.pixelRatio = pixelRatio;
+      this.sprites.clear();
+    }
+  }
+
+  /**
+   * Get (or rasterize) the sprite for a color, radius and blur
+   */
+  getSprite(color: string, radius: number, blur = 0): Sprite {
+    const bucket = getRadiusBucket(radius);
+    const blurBucket = Math.round(blur / RADIUS_STEP) * RADIUS_STEP;
+    const key = `${color}|${bucket}|${blurBucket}`;
+    const cached = this.sprites.get(key);
+
+    if (cached) {
+      return cached;
+    }
+
+    if (this.sprites.size >= MAX_SPRITES) {
+      this.sprites.clear();
+    }
+
+    const sprite = this.rasterize(color, bucket, blurBucket);
+    this.sprites.set(key, sprite);
+    return sprite;
+  }
+
+  /**
+   * Draw a filled (and optionally blurred) circle into a new sprite canvas
+   */
+  private rasterize(color: string, radius: number, blur: number): Sprite {
+    // A gaussian blur spreads about twice its radius
+    const size = (radius + blur * 2 + PADDING) * 2;
+    const pixels = Math.ceil(size * this.pixelRatio);
+    const canvas = createCanvas(pixels, pixels);
+    const ctx = canvas.getContext("2d") as
+      | CanvasRenderingContext2D
+      | OffscreenCanvasRenderingContext2D
+      | null;
+
+    if (ctx) {
+      ctx.scale(this.pixelRatio, this.pixelRatio);
+
+      if (blur > 0) {
+        ctx.filter = `blur(${blur * this.pixelRatio}px)`;
+      }
+
+      ctx.beginPath();
+      ctx.arc(size / 2, size / 2, radius, 0, TWO_PI);
+      ctx.fillStyle = color;
+      ctx.fill();
+    }
+
+    return { canvas, radius, size: pixels / this.pixelRatio };
+  }
+
+  /**
+   * Drop every cached sprite
+   */
+  clear(): void {
+    this.sprites.clear();
+  }
+}
@@ -0,0 +1,109 @@
+/**
+ * Timeline - Samples scripted keyframes of intensity, speed and wind
+ */
+
+import type { SnowfallKeyframe, SnowfallTimeline } from "./types";
+import { lerp, lerpRange, toRange } from "./utils";
+
+/**
+ * The values of a timeline at a moment (undefined where no keyframe sets
+ * the value)
+ */
+export interface TimelineSample {
+  intensity?: number;
+  speed?: [number, number];
+  wind?: [number, number];
+}
+
+/**
+ * Get the keyframes that set a value, in time order
+ */
+const getKeyframes = (
+  keyframes: readonly SnowfallKeyframe[],
+  key: keyof TimelineSample
+): SnowfallKeyframe[] =>
+  keyframes
+    .filter((keyframe) => keyframe[key] !== undefined)
+    .sort((a, b) => a.at - b.at);
+
+/**
+ * Find the keyframes around a time and how far it is between them, holding
+ * the first and last values outside the keyframes
+ */
+const getSpan = (
+  keyframes: readonly SnowfallKeyframe[],
+  time: number
+): [SnowfallKeyframe, SnowfallKeyframe, number] | undefined => {
+  const nextIndex = keyframes.findIndex((keyframe) => keyframe.at > time);
+
+  if (nextIndex === -1) {
+    const last = keyframes.at(-1);
+    return last && [last, last, 0];
+  }
+
+  const next = keyframes[nextIndex];
+  const previous = keyframes[nextIndex - 1] ?? next;
+  const duration = next.at - previous.at;
+
+  return [previous, next, duration > 0 ? (time - previous.at) / duration : 0];
+};
+
+/**
+ * Sample the intensity, interpolating linearly between keyframes
+ */
+const sampleIntensity = (
+  keyframes: readonly SnowfallKeyframe[],
+  time: number
+): number | undefined => {
+  const span = getSpan(getKeyframes(keyframes, "intensity"), time);
+
+  if (!span) {
+    return;
+  }
+
+  const [from, to, t] = span;
+  return lerp(from.intensity ?? 1, to.intensity ?? 1, t);
+};
+
+/**
+ * Sample a range value, interpolating linearly between keyframes
+ */
+const sampleRange = (
+  keyframes: readonly SnowfallKeyframe[],
+  key: "speed" | "wind",
+  time: number
+): [number, number] | undefined => {
+  const span = getSpan(getKeyframes(keyframes, key), time);
+
+  if (!span) {
+    return;
+  }
+
+  const [from, to, t] = span;
+  return lerpRange(toRange(from[key] ?? 0), toRange(to[key] ?? 0), t);
+};
+
+/**
+ * Get the length of a timeline in milliseconds (the time of its last keyframe)
+ */
+export const getTimelineDuration = ({ keyframes }: SnowfallTimeline): number =>
+  Math.max(0, ...keyframes.map(({ at }) => at));
+
+/**
+ * Sample the values of a timeline at a time since it started, wrapping
+ * around when it loops
+ */
+export const sampleTimeline = (
+  timeline: SnowfallTimeline,
+  elapsedMs: number
+): TimelineSample => {
+  const { keyframes, loop = false } = timeline;
+  const duration = getTimelineDuration(timeline);
+  const time = loop && duration > 0 ? elapsedMs % duration : elapsedMs;
+
+  return {
+    intensity: sampleIntensity(keyframes, time),
+    speed: sampleRange(keyframes, "speed", time),
+    wind: sampleRange(keyframes, "wind", time),
+  };
+};
@@ -2,13 +2,81 @@
  * TypeScript type definitions for snowfall animation
  */
 
+import type { Snowflake } from "./snowflake";
+
+/**
+ * A decoded image with optional per-image weighting and sizing
+ */
+export interface SnowflakeImageSource {
+  /** The decoded image to draw */
+  image: CanvasImageSource;
+  /**
+   * The minimum and maximum radius for snowflakes using this image.
+   * Falls back to the snowflake `radius` range when omitted.
+   */
+  radius?: [number, number];
+  /**
+   * Relative probability of this image being picked.
+   * @default 1
+   */
+  weight?: number;
+}
+
+/**
+ * An image URL with optional per-image weighting and sizing
+ */
+export interface SnowflakeImageUrl {
+  /**
+   * The minimum and maximum radius for snowflakes using this image.
+   * Falls back to the snowflake `radius` range when omitted.
+   */
+  radius?: [number, number];
+  /** The URL of the image to load */
+  src: string;
+  /**
+   * Relative probability of this image being picked.
+   * @default 1
+   */
+  weight?: number;
+}
+
+/**
+ * How a snowflake without an image is drawn
+ */
+export type SnowflakeShape =
+  | "circle"
+  | "streak"
+  | "quad"
+  | "crystal"
+  | "star"
+  | "mixed";
+
+/**
+ * Named looks, each a partial config applied under the user's own options
+ */
+export type SnowfallPreset =
+  | "light-flurry"
+  | "blizzard"
+  | "sleet"
+  | "rain"
+  | "cherry-blossom"
+  | "confetti"
+  | "autumn-leaves";
+
 /**
  * Configuration for individual snowflake properties
  */
 export interface SnowflakeProps {
   /**
-   * The frequency in frames at which the snowflake changes target speed and wind.
-   * @default 200
+   * Depth-of-field blur radius in pixels, e.g. to soften distant layers.
+   * @default undefined (sharp)
+   */
+  blur?: number;
+
+  /**
+   * How often the snowflake changes target speed and wind, in
+   * milliseconds.
+   * @default 3000
    */
   changeFrequency: number;
   /**
@@ -17,6 +85,21 @@ export interface SnowflakeProps {
    */
   color: string;
 
+  /**
+   * Derive radius, speed and opacity from a single per-snowflake `depth`,
+   * so larger snowflakes are also faster and more opaque (as if closer).
+   * When disabled, each is sampled independently from its range.
+   * @default false
+   */
+  correlateDepth: boolean;
+
+  /**
+   * How many levels of side branches crystal shapes grow, from 0 (bare
+   * arms) to 3 (densely branched).
+   * @default 2
+   */
+  crystalComplexity?: number;
+
   /**
    * Enable 3D rotation for the snowflakes.
    * @default false
@@ -27,7 +110,7 @@ export interface SnowflakeProps {
    * Array of images to use as snowflakes instead of circles.
    * @default undefined
    */
-  images?: CanvasImageSource[];
+  images?: (CanvasImageSource | SnowflakeImageSource)[];
 
   /**
    * The minimum and maximum opacity of the snowflake (0 to 1).
@@ -42,59 +125,573 @@ export interface SnowflakeProps {
   radius: [number, number];
 
   /**
-   * The minimum and maximum rotation speed of the snowflake in degrees per frame.
-   * @default [-1.0, 1.0]
+   * The minimum and maximum rotation speed of the snowflake in degrees per second.
+   * @default [-60, 60]
    */
   rotationSpeed: [number, number];
 
   /**
-   * The minimum and maximum speed of the snowflake (vertical velocity).
-   * @default [1.0, 3.0]
+   * How snowflakes without an image are drawn.
+   * - `"circle"`: a round dot
+   * - `"streak"`: a line stretched along the direction of travel (rain)
+   * - `"quad"`: a spinning rectangle that tumbles with `enable3DRotation`
+   *   (confetti, petals, leaves)
+   * - `"crystal"`: a procedurally grown six-fold dendrite, one of several
+   *   designs per snowflake, rotated like images
+   * - `"star"`: a five-pointed star, rotated like images
+   * - `"mixed"`: a random mix of circles, crystals and stars
+   * @default 'circle'
+   */
+  shape?: SnowflakeShape;
+
+  /**
+   * The minimum and maximum speed of the snowflake (vertical velocity) in
+   * pixels per second.
+   * @default [60, 180]
    */
   speed: [number, number];
 
   /**
-   * The minimum and maximum wind applied to the snowflake (horizontal velocity).
-   * @default [-0.5, 2.0]
+   * The minimum and maximum wind applied to the snowflake (horizontal
+   * velocity) in pixels per second.
+   * @default [-30, 120]
    */
   wind: [number, number];
 }
 
 /**
- * User-facing configuration (all properties optional)
+ * A `[min, max]` range, or a single number for a fixed value
+ */
+export type RangeValue = number | [number, number];
+
+/**
+ * The snowflake properties that are `[min, max]` ranges
+ */
+export type SnowflakeRangeProp =
+  | "opacity"
+  | "radius"
+  | "rotationSpeed"
+  | "speed"
+  | "wind";
+
+/**
+ * User-facing configuration (all properties optional). Ranges also accept a
+ * single number, e.g. `speed: 2` for `[2, 2]`.
+ */
+export type SnowflakeConfig = Partial<
+  Omit<SnowflakeProps, SnowflakeRangeProp> &
+    Record<SnowflakeRangeProp, RangeValue>
+>;
+
+/**
+ * A depth layer of snowflakes, overriding the base snowflake config
+ */
+export interface SnowfallLayer extends SnowflakeConfig {
+  /**
+   * How far the layer moves with parallax, from 0 (fixed) to 1 (full strength).
+   * @default the layer position, from back to front (e.g. 1/3, 2/3, 1)
+   */
+  parallax?: number;
+
+  /**
+   * The number of snowflakes in the layer.
+   * @default the total snowflake count split evenly between layers
+   */
+  snowflakeCount?: number;
+}
+
+/**
+ * Lets snowflakes settle into piles instead of wrapping around
+ */
+export interface SnowfallAccumulation {
+  /**
+   * The color of settled snow.
+   * @default the snowflake `color`
+   */
+  color?: string;
+
+  /**
+   * The maximum depth of settled snow in pixels.
+   * @default 40
+   */
+  maxDepth?: number;
+
+  /**
+   * How fast settled snow melts, in pixels per second.
+   * @default 0 (never melts)
+   */
+  meltRate?: number;
+
+  /**
+   * The width in pixels of each height-map column.
+   * @default 4
+   */
+  resolution?: number;
+
+  /**
+   * CSS selector for elements whose top edge collects snow, tracked on
+   * scroll and resize. Snow always settles along the canvas bottom.
+   * @default undefined (only the canvas bottom)
+   */
+  selector?: string;
+}
+
+/**
+ * A rect in canvas CSS pixels whose top edge collects snow
+ */
+export interface SurfaceRect {
+  left: number;
+  top: number;
+  width: number;
+}
+
+/**
+ * A surface and the height-map of snow settled on it
+ */
+export interface AccumulationSurface extends SurfaceRect {
+  /** The width in pixels of each height-map column */
+  columnWidth: number;
+  /** The depth of settled snow in each column, in pixels */
+  heights: Float32Array;
+}
+
+/**
+ * Settled snow handed to a renderer
+ */
+export interface AccumulatedSnow {
+  color: string;
+  surfaces: readonly AccumulationSurface[];
+}
+
+/**
+ * Makes snowflakes react to the pointer (mouse, pen or touch)
+ */
+export interface SnowfallInteraction {
+  /**
+   * How snowflakes react to the pointer.
+   * - `"repel"`: pushed away from the pointer
+   * - `"attract"`: pulled towards the pointer
+   * - `"wake"`: blown along with the pointer's movement
+   */
+  mode: "repel" | "attract" | "wake";
+
+  /**
+   * The distance in pixels within which snowflakes react.
+   * @default 100
+   */
+  radius?: number;
+
+  /**
+   * How strongly snowflakes react.
+   * @default 1
+   */
+  strength?: number;
+}
+
+/**
+ * The pointer position and velocity in canvas CSS pixels
+ */
+export interface SnowfallPointer {
+  /** Horizontal velocity in pixels per second */
+  vx: number;
+  /** Vertical velocity in pixels per second */
+  vy: number;
+  x: number;
+  y: number;
+}
+
+/**
+ * Shifts snowflake layers with scrolling or pointer movement
+ */
+export interface SnowfallParallax {
+  /**
+   * What moves the layers.
+   * - `"scroll"`: the window scroll position
+   * - `"pointer"`: the pointer position within the window
+   */
+  source: "scroll" | "pointer";
+
+  /**
+   * How far the front layer moves. For `"scroll"` this is a fraction of the
+   * scroll distance, for `"pointer"` the offset in pixels at the window edges.
+   * @default 0.3 for scroll, 40 for pointer
+   */
+  strength?: number;
+}
+
+/**
+ * A wind shared by every snowflake, replacing their individual random wind
+ */
+export interface SnowfallWindField {
+  /**
+   * Steady wind in pixels per second; positive values blow to the right
+   * @default 0
+   */
+  base?: number;
+
+  /**
+   * Average number of gusts per second
+   * @default 0.1
+   */
+  gustFrequency?: number;
+
+  /**
+   * Extra wind in pixels per second at the peak of a gust, in the direction
+   * of `base` (to the right when `base` is 0)
+   * @default 0
+   */
+  gustStrength?: number;
+
+  /**
+   * Wind in pixels per second by which nearby snowflakes can differ, varying
+   * smoothly over position and time
+   * @default 0
+   */
+  turbulence?: number;
+
+  /**
+   * Size in pixels of the turbulent swirls
+   * @default 200
+   */
+  turbulenceScale?: number;
+}
+
+/**
+ * A range of dates or times of day, written as zero-padded strings
  */
-export type SnowflakeConfig = Partial<SnowflakeProps>;
+export interface SnowfallTimeRange {
+  /** The last date, or the end of the time of day (exclusive) */
+  end: string;
+  /** The first date, or the start of the time of day */
+  start: string;
+}
+
+/**
+ * When snow falls, evaluated in the visitor's browser. Dates and seasons
+ * are alternatives (snow falls during any of them); `hours` further limits
+ * the time of day.
+ */
+export interface SnowfallActiveWindow {
+  /**
+   * Date ranges as `YYYY-MM-DD`, both ends inclusive, e.g.
+   * `{ start: "2026-12-01", end: "2027-01-06" }`
+   */
+  dates?: SnowfallTimeRange[];
+
+  /**
+   * Duration in milliseconds of the fade in and out of the intensity when
+   * the window opens or closes on an open page
+   * @default 3000
+   */
+  fadeMs?: number;
+
+  /**
+   * Time of day as `HH:MM` in 24-hour time, e.g.
+   * `{ start: "17:00", end: "23:30" }`. Ranges may wrap past midnight.
+   */
+  hours?: SnowfallTimeRange;
+
+  /**
+   * Recurring yearly seasons as `MM-DD`, both ends inclusive, e.g.
+   * `{ start: "12-01", end: "01-06" }`. Seasons may wrap past new year.
+   */
+  seasons?: SnowfallTimeRange[];
+
+  /**
+   * IANA time zone the dates and times are in, e.g. `"Europe/Oslo"`
+   * @default the visitor's time zone
+   */
+  timeZone?: string;
+}
+
+/**
+ * A point on a timeline. Values are interpolated linearly between the
+ * keyframes that set them.
+ */
+export interface SnowfallKeyframe {
+  /** Time of the keyframe in milliseconds since the timeline started */
+  at: number;
+  /** Share of the snowflakes that are active, from 0 to 1 */
+  intensity?: number;
+  /** Min and max vertical speed in pixels per second */
+  speed?: RangeValue;
+  /** Min and max horizontal wind in pixels per second */
+  wind?: RangeValue;
+}
+
+/**
+ * Scripted changes of intensity, speed and wind over time
+ */
+export interface SnowfallTimeline {
+  /** The keyframes, e.g. a light flurry at `0` becoming a storm at `20000` */
+  keyframes: SnowfallKeyframe[];
+
+  /**
+   * Start over after the last keyframe (repeat the first values at the end
+   * for a seamless loop); otherwise its values are held
+   * @default false
+   */
+  loop?: boolean;
+}
+
+/**
+ * Sheds active snowflakes while frames take longer than a budget, and
+ * brings them back once there is room again
+ */
+export interface SnowfallAdaptiveQuality {
+  /**
+   * Time in milliseconds a frame may take to update and draw
+   * @default 12
+   */
+  frameBudgetMs?: number;
+
+  /**
+   * Lowest share of the snowflakes kept active, from 0 to 1
+   * @default 0.25
+   */
+  minQuality?: number;
+}
+
+/**
+ * Performance of a running snowfall, measured over the last half second
+ */
+export interface SnowfallStats {
+  /** Number of snowflakes currently simulated and drawn */
+  activeFlakes: number;
+  /** Frames drawn per second */
+  fps: number;
+  /** Average time in milliseconds spent updating and drawing a frame */
+  frameTime: number;
+  /** Share of the snowflakes kept active by `adaptiveQuality`, from 0 to 1 */
+  quality: number;
+}
 
 /**
  * Configuration for the SnowfallCanvas
  */
 export interface SnowfallCanvasConfig extends SnowflakeConfig {
+  /**
+   * Let snowflakes settle into piles along the canvas bottom (and on
+   * elements matching `selector`) instead of wrapping around.
+   * @default undefined (no accumulation)
+   */
+  accumulation?: SnowfallAccumulation;
+
+  /**
+   * Reduce the number of active snowflakes when frames take longer than a
+   * budget, e.g. on low-power devices. `true` uses the defaults.
+   * @default undefined (always draw every snowflake)
+   */
+  adaptiveQuality?: boolean | SnowfallAdaptiveQuality;
+
+  /**
+   * Pause the animation while the canvas is outside the viewport
+   * or the document is hidden.
+   * @default true
+   */
+  autoPause?: boolean;
+
+  /**
+   * How the 2D renderer batches draw calls. Changes are applied live.
+   * - `"sprites"`: draw circles from a cache of pre-rasterized sprites,
+   *   grouped by opacity (fastest for thousands of flakes)
+   * - `"paths"`: fill circles sharing a color and opacity as a single path
+   * - `"none"`: draw every snowflake individually
+   *
+   * Image snowflakes are always drawn individually.
+   * @default 'sprites'
+   */
+  batching?: "sprites" | "paths" | "none";
+
+  /**
+   * Clock used to time the animation, returning milliseconds.
+   * Inject a custom clock to drive frames deterministically.
+   * @default Date.now
+   */
+  clock?: () => number;
+
+  /**
+   * How to handle `imageUrls` while they load.
+   * - `"wait"`: start the animation only once the images are decoded
+   * - `"swap"`: start with circles and swap to images once decoded
+   *
+   * Images that fail to load are skipped; if none load, circles are used.
+   * @default 'wait'
+   */
+  imageLoading?: "wait" | "swap";
+
+  /**
+   * Array of image URLs to preload and use as snowflakes instead of circles.
+   * Unlike `images`, these survive serialization so they can be passed
+   * as props to the Astro component.
+   * @default undefined
+   */
+  imageUrls?: (string | SnowflakeImageUrl)[];
+
+  /**
+   * Share of the snowflakes that are active at once, from 0 (none) to 1
+   * (the full count). Changes follow `transitionMs`; use `setIntensity` for
+   * other durations.
+   * @default 1
+   */
+  intensity?: number;
+
+  /**
+   * Make snowflakes react to the pointer. Pointer and touch events are read
+   * from the window, so this works with `pointer-events: none` canvases
+   * behind page content.
+   * @default undefined (no interaction)
+   */
+  interaction?: SnowfallInteraction;
+
+  /**
+   * Depth layers, ordered from back to front. Each layer overrides the base
+   * snowflake config (and defaults to `correlateDepth: true`), so distant
+   * layers can be smaller, slower, fainter and blurred.
+   * @default undefined (a single layer)
+   */
+  layers?: SnowfallLayer[];
+
+  /**
+   * Draw at most this many frames per second, e.g. to save power. Motion
+   * keeps its speed, only in fewer steps.
+   * @default undefined (every display frame)
+   */
+  maxFps?: number;
+
+  /**
+   * The maximum pixel ratio used when `pixelRatio` is `"auto"`,
+   * capping the canvas resolution on very dense screens.
+   * @default 2
+   */
+  maxPixelRatio?: number;
+
+  /**
+   * Shift layers with scrolling or pointer movement for a sense of depth.
+   * Without `layers` the single layer moves at full strength.
+   * @default undefined (no parallax)
+   */
+  parallax?: SnowfallParallax;
+
+  /**
+   * The pixel ratio to render at. `"auto"` follows `window.devicePixelRatio`
+   * (capped by `maxPixelRatio`) so snow stays crisp on HiDPI screens.
+   * @default 'auto'
+   */
+  pixelRatio?: "auto" | number;
+
+  /**
+   * A named look to start from. Options set alongside the preset take
+   * precedence over its values. Switching presets with `updateConfig`
+   * resets the values the previous preset set.
+   * @default undefined
+   */
+  preset?: SnowfallPreset;
+
+  /**
+   * How to react to the `prefers-reduced-motion: reduce` media query.
+   * - `"respect"`: stop the animation and clear the canvas
+   * - `"static"`: stop the animation and render a single still frame
+   * - `"ignore"`: keep animating
+   *
+   * Changes to the media query are applied live.
+   * @default 'respect'
+   */
+  reducedMotion?: "respect" | "ignore" | "static";
+
+  /**
+   * The rendering backend.
+   * - `"2d"`: the 2D canvas context (see `batching`)
+   * - `"webgl"`: WebGL 2, drawing every snowflake as an instanced quad.
+   *   Falls back to `"2d"` when WebGL 2 is unavailable.
+   *
+   * Read when the canvas is created. A canvas keeps the context it was
+   * first drawn with, so later changes are reported and ignored.
+   * @default '2d'
+   */
+  renderer?: "2d" | "webgl";
+
+  /**
+   * Where the animation runs.
+   * - `"main"`: on the main thread
+   * - `"worker"`: in a Web Worker drawing to an OffscreenCanvas, keeping the
+   *   main thread free. Falls back to `"main"` when unsupported.
+   * @default 'main'
+   */
+  renderMode?: "main" | "worker";
+
+  /**
+   * Seed for the random number generator. The same seed and clock
+   * sequence always produce the same frames.
+   * @default undefined (uses Math.random)
+   */
+  seed?: number | string;
+
   /**
    * The number of snowflakes to render.
    * @default 150
    */
   snowflakeCount?: number;
+
+  /**
+   * The number of snowflakes per 100,000 square CSS pixels of canvas area.
+   * When set, it takes precedence over `snowflakeCount` and the count is
+   * updated as the canvas resizes.
+   * @default undefined
+   */
+  snowflakeDensity?: number;
+
+  /**
+   * Keyframes of intensity, speed and wind played from when the snowfall
+   * starts (or the timeline is replaced). Timeline intensity scales
+   * `intensity`; timeline speed and wind replace the base ranges (layers
+   * with their own keep them).
+   * @default undefined
+   */
+  timeline?: SnowfallTimeline;
+
+  /**
+   * Duration in milliseconds over which `updateConfig` smoothly
+   * interpolates numeric ranges, colors and the snowflake count.
+   * Set to 0 to apply updates immediately.
+   * @default 0
+   */
+  transitionMs?: number;
+
+  /**
+   * A global wind with gusts and turbulence that every snowflake follows,
+   * instead of each drifting towards its own random `wind` target.
+   * Update it at runtime with `setWind`.
+   * @default undefined (per-snowflake random wind)
+   */
+  windField?: SnowfallWindField;
 }
 
 /**
  * Internal parameters for tracking snowflake state
  */
 export interface SnowflakeParams {
-  /** Frame counter for change frequency */
-  framesSinceLastUpdate: number;
+  /** Relative closeness used by `correlateDepth` (0 = farthest, 1 = nearest) */
+  depth: number;
   /** Image to use for this snowflake (if using images) */
   image?: CanvasImageSource;
+  /** Milliseconds since the last target change, for change frequency */
+  msSinceLastUpdate: number;
   /** Target speed to lerp towards */
   nextSpeed: number;
   /** Target wind to lerp towards */
   nextWind: number;
   /** Current opacity (0-1) */
   opacity: number;
+  /** Horizontal velocity from interactions, decaying over time */
+  pushX: number;
+  /** Vertical velocity from interactions, decaying over time */
+  pushY: number;
   /** Current radius */
   radius: number;
   /** Current rotation in degrees */
   rotation: number;
-  /** Rotation speed in degrees per frame */
+  /** Rotation speed in degrees per second */
   rotationSpeed: number;
   /** Current 3D rotation on X axis */
   rotationX: number;
@@ -104,6 +701,8 @@ export interface SnowflakeParams {
   rotationZ: number;
   /** Current speed (vertical velocity) */
   speed: number;
+  /** Random value in [0, 1) picking the crystal design (and shape for `mixed`) */
+  variant?: number;
   /** Current wind (horizontal velocity) */
   wind: number;
   /** Current X position */
@@ -111,3 +710,61 @@ export interface SnowflakeParams {
   /** Current Y position */
   y: number;
 }
+
+/**
+ * Draws simulation particles to a surface (2D canvas, WebGL, ...)
+ */
+export interface Renderer {
+  /** Clear the drawing surface */
+  clear: () => void;
+  /** Release any resources held by the renderer */
+  destroy: () => void;
+  /** Draw a frame with the given particles and settled snow */
+  render: (
+    particles: readonly Snowflake[],
+    accumulation?: AccumulatedSnow
+  ) => void;
+  /** Resize the drawing surface, in CSS pixels, at the given pixel ratio */
+  resize: (width: number, height: number, pixelRatio: number) => void;
+  /** Change how draw calls are batched, for renderers that batch */
+  setBatching?: (
+    batching: NonNullable<SnowfallCanvasConfig["batching"]>
+  ) => void;
+}
+
+/**
+ * Runs the simulation and frame loop for a `SnowfallCanvas`, either on the
+ * main thread or proxied to a worker
+ */
+export interface SnowfallRuntime {
+  /** Clear the drawing surface */
+  clear: () => void;
+  /** Remove all settled snow */
+  clearAccumulation: () => void;
+  /** Stop the loop and release all resources */
+  destroy: () => void;
+  /** Get the latest performance measurements */
+  getStats: () => SnowfallStats;
+  /** Render a single still frame with snowflakes spread over the surface */
+  renderStill: () => void;
+  /** Resize the simulated area, in CSS pixels, at the given pixel ratio */
+  resize: (width: number, height: number, pixelRatio: number) => void;
+  /** Ease the share of active snowflakes to a value over a duration */
+  setIntensity: (intensity: number, durationMs: number) => void;
+  /** Replace the images loaded from `imageUrls` */
+  setLoadedImages: (images: SnowflakeImageSource[]) => void;
+  /** Update the pointer for `interaction`, or null when it left */
+  setPointer: (pointer: SnowfallPointer | null) => void;
+  /** Track element rects, in canvas CSS pixels, that collect snow */
+  setSurfaces: (rects: SurfaceRect[]) => void;
+  /** Replace the global wind field, or return to per-snowflake wind */
+  setWind: (wind: SnowfallWindField | undefined) => void;
+  /** Move the snowflakes of each layer by its share of a parallax offset */
+  shift: (dx: number, dy: number) => void;
+  /** Start the frame loop if it is not already running */
+  start: () => void;
+  /** Stop the frame loop */
+  stop: () => void;
+  /** Merge a partial configuration, transitioning while the loop runs */
+  updateConfig: (config: SnowfallCanvasConfig) => void;
+}
@@ -2,11 +2,60 @@
  * Utility functions for snowfall animation
  */
 
+import type { RangeValue } from "./types";
+
+/**
+ * A source of random numbers in [0, 1), like `Math.random`
+ */
+export type RandomSource = () => number;
+
+// biome-ignore-start lint/suspicious/noBitwiseOperators: PRNGs rely on 32-bit integer math
+
+/**
+ * Hash a string seed into a 32-bit integer (FNV-1a)
+ */
+const hashSeed = (seed: string): number => {
+  let hash = 2_166_136_261;
+
+  for (let index = 0; index < seed.length; index += 1) {
+    hash ^= seed.charCodeAt(index);
+    hash = Math.imul(hash, 16_777_619);
+  }
+
+  return hash >>> 0;
+};
+
+/**
+ * Create a seedable pseudo-random number generator (mulberry32).
+ * The same seed always produces the same sequence.
+ */
+export const createRandom = (seed: number | string): RandomSource => {
+  let state = typeof seed === "string" ? hashSeed(seed) : seed >>> 0;
+
+  return () => {
+    state = (state + 0x6d_2b_79_f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4_294_967_296;
+  };
+};
+
+// biome-ignore-end lint/suspicious/noBitwiseOperators: PRNGs rely on 32-bit integer math
+
+/**
+ * Duration of a frame at 60 fps, the unit of per-frame decays
+ */
+export const FRAME_MS = 1000 / 60;
+
 /**
  * Generate a random number between min and max
  */
-export const random = (min: number, max: number): number =>
-  Math.random() * (max - min) + min;
+export const random = (
+  min: number,
+  max: number,
+  rng: RandomSource = Math.random
+): number => rng() * (max - min) + min;
 
 /**
  * Linear interpolation between two values
@@ -17,8 +66,40 @@ export const lerp = (start: number, end: number, t: number): number =>
 /**
  * Get a random element from an array
  */
-export const randomElement = <T>(array: T[]): T =>
-  array[Math.floor(Math.random() * array.length)];
+export const randomElement = <T>(
+  array: T[],
+  rng: RandomSource = Math.random
+): T => array[Math.floor(rng() * array.length)];
+
+/**
+ * Get a random element from an array, weighted by the given function
+ */
+export const weightedRandomElement = <T>(
+  array: T[],
+  getWeight: (element: T) => number,
+  rng: RandomSource = Math.random
+): T => {
+  const total = array.reduce(
+    (sum, element) => sum + Math.max(0, getWeight(element)),
+    0
+  );
+
+  if (total <= 0) {
+    return randomElement(array, rng);
+  }
+
+  let threshold = rng() * total;
+
+  for (const element of array) {
+    threshold -= Math.max(0, getWeight(element));
+
+    if (threshold < 0) {
+      return element;
+    }
+  }
+
+  return array.at(-1) as T;
+};
 
 /**
  * Two Pi constant for circle calculations
@@ -30,3 +111,156 @@ export const TWO_PI = Math.PI * 2;
  */
 export const degreesToRadians = (degrees: number): number =>
   (degrees * Math.PI) / 180;
+
+/**
+ * Map a value from one range into the same relative position in another range
+ */
+export const remapRange = (
+  value: number,
+  [fromMin, fromMax]: [number, number],
+  [toMin, toMax]: [number, number],
+  rng: RandomSource = Math.random
+): number => {
+  if (fromMin === toMin && fromMax === toMax) {
+    return value;
+  }
+
+  // A collapsed source range has no relative position to keep
+  if (fromMax === fromMin) {
+    return random(toMin, toMax, rng);
+  }
+
+  const t = (value - fromMin) / (fromMax - fromMin);
+  return lerp(toMin, toMax, t);
+};
+
+/**
+ * Expand a single number into a `[value, value]` range
+ */
+export const toRange = (value: RangeValue): [number, number] =>
+  typeof value === "number" ? [value, value] : value;
+
+/**
+ * Linear interpolation between two ranges
+ */
+export const lerpRange = (
+  [startMin, startMax]: [number, number],
+  [endMin, endMax]: [number, number],
+  t: number
+): [number, number] => [lerp(startMin, endMin, t), lerp(startMax, endMax, t)];
+
+/**
+ * RGBA color channels (0-255 for red, green and blue, 0-1 for alpha)
+ */
+export type RGBA = [number, number, number, number];
+
+const HEX_COLOR_REGEX = /^#([\da-f]{3,4}|[\da-f]{6}|[\da-f]{8})$/i;
+const RGB_COLOR_REGEX =
+  /^rgba?\(\s*([\d.]+)[\s,]+([\d.]+)[\s,]+([\d.]+)(?:[\s,/]+([\d.]+)(%?))?\s*\)$/i;
+
+let colorContext:
+  | CanvasRenderingContext2D
+  | OffscreenCanvasRenderingContext2D
+  | null
+  | undefined;
+
+/**
+ * Get a scratch 2D context used to normalize arbitrary CSS colors
+ */
+const getColorContext = () => {
+  if (colorContext !== undefined) {
+    return colorContext;
+  }
+
+  if (typeof OffscreenCanvas === "function") {
+    colorContext = new OffscreenCanvas(1, 1).getContext("2d");
+  } else if (typeof document === "undefined") {
+    colorContext = null;
+  } else {
+    colorContext = document.createElement("canvas").getContext("2d");
+  }
+
+  return colorContext;
+};
+
+/**
+ * Parse hex and rgb()/rgba() colors without touching the DOM
+ */
+const parseColorString = (color: string): RGBA | null => {
+  const hex = HEX_COLOR_REGEX.exec(color)?.[1];
+
+  if (hex) {
+    const digits =
+      hex.length <= 4 ? [...hex].map((digit) => digit + digit).join("") : hex;
+    const channels =
+      digits.match(/../g)?.map((pair) => Number.parseInt(pair, 16)) ?? [];
+    const [red = 0, green = 0, blue = 0, alpha = 255] = channels;
+    return [red, green, blue, alpha / 255];
+  }
+
+  const rgb = RGB_COLOR_REGEX.exec(color);
+
+  if (rgb) {
+    const [, red, green, blue, alpha, percent] = rgb;
+    const opacity =
+      alpha === undefined ? 1 : Number(alpha) / (percent ? 100 : 1);
+    return [Number(red), Number(green), Number(blue), opacity];
+  }
+
+  return null;
+};
+
+/**
+ * Parse any CSS color into RGBA channels, or null if it cannot be parsed
+ */
+export const parseColor = (color: string): RGBA | null => {
+  const parsed = parseColorString(color.trim());
+
+  if (parsed) {
+    return parsed;
+  }
+
+  // Let the canvas normalize named and other CSS colors
+  const ctx = getColorContext();
+
+  if (!ctx) {
+    return null;
+  }
+
+  // Invalid colors are ignored, leaving the sentinel in place
+  const sentinel = "#010203";
+  ctx.fillStyle = sentinel;
+  ctx.fillStyle = color;
+  const normalized = String(ctx.fillStyle);
+
+  return normalized === sentinel ? null : parseColorString(normalized);
+};
+
+/**
+ * Interpolate between two CSS colors, snapping halfway if either cannot be parsed
+ */
+export const lerpColor = (start: string, end: string, t: number): string => {
+  const from = parseColor(start);
+  const to = parseColor(end);
+
+  if (!(from && to)) {
+    return t < 0.5 ? start : end;
+  }
+
+  const [red, green, blue] = [0, 1, 2].map((channel) =>
+    Math.round(lerp(from[channel], to[channel], t))
+  );
+  const alpha = lerp(from[3], to[3], t);
+
+  return `rgba(${red}, ${green}, ${blue}, ${alpha})`;
+};
+
+/**
+ * Measure a canvas in CSS pixels, falling back to the viewport
+ */
+export const getCanvasSize = (
+  canvas: HTMLCanvasElement
+): { height: number; width: number } => ({
+  height: canvas.offsetHeight || window.innerHeight,
+  width: canvas.offsetWidth || window.innerWidth,
+});
@@ -0,0 +1,533 @@
+/**
+ * Config validation - Normalizes user config, clamping or dropping invalid
+ * values and reporting each issue with its field path during development
+ */
+
+import type { SnowfallCanvasConfig } from "./types";
+import { parseColor, toRange } from "./utils";
+
+/**
+ * A problem found in a config, e.g. `{ path: "layers[1].radius", ... }`
+ */
+export interface ConfigIssue {
+  /** What was wrong and how it was handled */
+  message: string;
+  /** The path of the field within the config */
+  path: string;
+}
+
+/**
+ * The normalized config and the issues found while validating it
+ */
+export interface ValidationResult<
+  T extends SnowfallCanvasConfig = SnowfallCanvasConfig,
+> {
+  config: T;
+  issues: ConfigIssue[];
+}
+
+/**
+ * Options for `validateConfig`
+ */
+export interface ValidateConfigOptions {
+  /**
+   * Log the issues found with `console.warn`.
+   * @default true in development builds, false in production
+   */
+  report?: boolean;
+}
+
+/**
+ * Validate a field value, returning the (possibly fixed) value, or
+ * undefined to drop the field
+ */
+type Check = (value: unknown, path: string, issues: ConfigIssue[]) => unknown;
+
+/**
+ * Bounds for numbers: `min` and `max` clamp, `above` rejects values that are
+ * not strictly greater
+ */
+interface NumberBounds {
+  above?: number;
+  max?: number;
+  min?: number;
+}
+
+/**
+ * Whether this is a development build, so production builds skip reporting.
+ * Bundlers other than Vite may leave `import.meta.env` undefined.
+ */
+const isDev = (): boolean => import.meta.env?.DEV === true;
+
+/**
+ * Whether CSS colors can be checked here. Named colors need a canvas, so
+ * only hex colors can be checked during server rendering.
+ */
+const canCheckColors = (): boolean =>
+  typeof OffscreenCanvas === "function" || typeof document !== "undefined";
+
+const isColor = (value: string): boolean =>
+  parseColor(value) !== null ||
+  !(canCheckColors() || value.trim() === "" || value.trim().startsWith("#"));
+
+const describe = (value: unknown): string =>
+  typeof value === "string" ? `"${value}"` : String(JSON.stringify(value));
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const describeBounds = (min?: number, max?: number): string => {
+  if (min === undefined) {
+    return `at most ${max}`;
+  }
+
+  return max === undefined ? `at least ${min}` : `between ${min} and ${max}`;
+};
+
+/**
+ * Clamp a finite number into bounds, noting any change
+ */
+const clampNumber = (
+  value: number,
+  { above, max, min }: NumberBounds,
+  path: string,
+  issues: ConfigIssue[]
+): number | undefined => {
+  if (above !== undefined && value <= above) {
+    issues.push({
+      message: `must be greater than ${above}, got ${value}; ignored`,
+      path,
+    });
+    return;
+  }
+
+  const clamped = Math.min(
+    Math.max(value, min ?? Number.NEGATIVE_INFINITY),
+    max ?? Number.POSITIVE_INFINITY
+  );
+
+  if (clamped !== value) {
+    issues.push({
+      message: `must be ${describeBounds(min, max)}, got ${value}; clamped to ${clamped}`,
+      path,
+    });
+  }
+
+  return clamped;
+};
+
+/**
+ * A finite number within bounds
+ */
+const number =
+  (bounds: NumberBounds = {}): Check =>
+  (value, path, issues) => {
+    if (typeof value !== "number" || !Number.isFinite(value)) {
+      issues.push({
+        message: `expected a number, got ${describe(value)}; ignored`,
+        path,
+      });
+      return;
+    }
+
+    return clampNumber(value, bounds, path, issues);
+  };
+
+/**
+ * Parse a number or `[min, max]` pair into a range
+ */
+const parseRange = (value: unknown): [number, number] | null => {
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? toRange(value) : null;
+  }
+
+  if (
+    Array.isArray(value) &&
+    value.length === 2 &&
+    value.every((entry) => typeof entry === "number" && Number.isFinite(entry))
+  ) {
+    return toRange([value[0], value[1]]);
+  }
+
+  return null;
+};
+
+/**
+ * A `[min, max]` range (or a single number) with both ends within bounds,
+ * swapping inverted ends
+ */
+const range =
+  (bounds: NumberBounds = {}): Check =>
+  (value, path, issues) => {
+    const normalized = parseRange(value);
+
+    if (!normalized) {
+      issues.push({
+        message: `expected a number or [min, max], got ${describe(value)}; ignored`,
+        path,
+      });
+      return;
+    }
+
+    const [min, max] = normalized.map((end, index) =>
+      clampNumber(end, bounds, `${path}[${index}]`, issues)
+    );
+
+    if (min === undefined || max === undefined) {
+      return;
+    }
+
+    if (min > max) {
+      issues.push({
+        message: `min ${min} is greater than max ${max}; swapped`,
+        path,
+      });
+      return [max, min];
+    }
+
+    return [min, max];
+  };
+
+/**
+ * One of a fixed set of values
+ */
+const oneOf =
+  (values: readonly unknown[]): Check =>
+  (value, path, issues) => {
+    if (values.includes(value)) {
+      return value;
+    }
+
+    issues.push({
+      message: `expected one of ${values.map(describe).join(", ")}, got ${describe(value)}; ignored`,
+      path,
+    });
+  };
+
+/**
+ * A value of a primitive type
+ */
+const ofType =
+  (type: "boolean" | "string" | "function"): Check =>
+  (value, path, issues) => {
+    if (typeof value === type) {
+      return value;
+    }
+
+    issues.push({
+      message: `expected a ${type}, got ${describe(value)}; ignored`,
+      path,
+    });
+  };
+
+/**
+ * A CSS color
+ */
+const color: Check = (value, path, issues) => {
+  if (typeof value === "string" && isColor(value)) {
+    return value;
+  }
+
+  issues.push({
+    message: `expected a CSS color, got ${describe(value)}; ignored`,
+    path,
+  });
+};
+
+/**
+ * Either of two checks, trying the first one silently
+ */
+const either =
+  (first: Check, second: Check): Check =>
+  (value, path, issues) =>
+    first(value, path, []) ?? second(value, path, issues);
+
+/**
+ * Check the fields of an object, dropping those that fail
+ */
+const checkFields = (
+  value: Record<string, unknown>,
+  checks: Record<string, Check>,
+  path: string,
+  issues: ConfigIssue[]
+): Record<string, unknown> =>
+  Object.fromEntries(
+    Object.entries(value).flatMap(([key, entry]) => {
+      const check = checks[key];
+
+      if (!check || entry === undefined) {
+        return [[key, entry]];
+      }
+
+      const checked = check(entry, path ? `${path}.${key}` : key, issues);
+      return checked === undefined ? [] : [[key, checked]];
+    })
+  );
+
+/**
+ * An object whose fields pass the given checks
+ */
+const object =
+  (checks: Record<string, Check>): Check =>
+  (value, path, issues) => {
+    if (isRecord(value)) {
+      return checkFields(value, checks, path, issues);
+    }
+
+    issues.push({
+      message: `expected an object, got ${describe(value)}; ignored`,
+      path,
+    });
+  };
+
+/**
+ * An array whose items pass the given check, dropping those that fail
+ */
+const list =
+  (check: Check): Check =>
+  (value, path, issues) => {
+    if (!Array.isArray(value)) {
+      issues.push({
+        message: `expected an array, got ${describe(value)}; ignored`,
+        path,
+      });
+      return;
+    }
+
+    return value
+      .map((item, index) => check(item, `${path}[${index}]`, issues))
+      .filter((item) => item !== undefined);
+  };
+
+/**
+ * An object whose fields pass the given checks, dropped without valid
+ * `required` fields
+ */
+const objectWith =
+  (checks: Record<string, Check>, ...required: string[]): Check =>
+  (value, path, issues) => {
+    const checked = object(checks)(value, path, issues);
+
+    if (!isRecord(checked)) {
+      return;
+    }
+
+    const missing = required.filter((key) => checked[key] === undefined);
+
+    if (missing.length === 0) {
+      return checked;
+    }
+
+    issues.push({ message: `missing ${missing.join(" and ")}; ignored`, path });
+  };
+
+/**
+ * A string matching a pattern, e.g. a date in a fixed format
+ */
+const matches =
+  (pattern: RegExp, format: string): Check =>
+  (value, path, issues) => {
+    if (typeof value === "string" && pattern.test(value)) {
+      return value;
+    }
+
+    issues.push({
+      message: `expected ${format}, got ${describe(value)}; ignored`,
+      path,
+    });
+  };
+
+/**
+ * A `{ start, end }` range of strings in a fixed format
+ */
+const timeRange = (pattern: RegExp, format: string): Check =>
+  objectWith(
+    { end: matches(pattern, format), start: matches(pattern, format) },
+    "start",
+    "end"
+  );
+
+/**
+ * An IANA time zone known to `Intl`
+ */
+const timeZone: Check = (value, path, issues) => {
+  if (typeof value === "string") {
+    try {
+      return new Intl.DateTimeFormat("en-US", {
+        timeZone: value,
+      }).resolvedOptions().timeZone;
+    } catch {
+      // Reported below
+    }
+  }
+
+  issues.push({
+    message: `expected an IANA time zone, got ${describe(value)}; ignored`,
+    path,
+  });
+};
+
+/**
+ * Checks for the snowflake options shared by the config and its layers
+ */
+const snowflakeChecks: Record<string, Check> = {
+  blur: number({ min: 0 }),
+  changeFrequency: number({ above: 0 }),
+  color,
+  correlateDepth: ofType("boolean"),
+  crystalComplexity: number({ max: 3, min: 0 }),
+  enable3DRotation: ofType("boolean"),
+  opacity: range({ max: 1, min: 0 }),
+  radius: range({ min: 0 }),
+  rotationSpeed: range(),
+  shape: oneOf(["circle", "streak", "quad", "crystal", "star", "mixed"]),
+  speed: range(),
+  wind: range(),
+};
+
+/** `MM-DD`, shared by dates and seasons */
+const MONTH_DAY = "(0[1-9]|1[0-2])-(0[1-9]|[12]\\d|3[01])";
+
+const configChecks: Record<string, Check> = {
+  ...snowflakeChecks,
+  accumulation: object({
+    color,
+    maxDepth: number({ min: 0 }),
+    meltRate: number({ min: 0 }),
+    resolution: number({ above: 0 }),
+    selector: ofType("string"),
+  }),
+  activeWindow: object({
+    dates: list(
+      timeRange(new RegExp(`^\\d{4}-${MONTH_DAY}$`), "a YYYY-MM-DD date")
+    ),
+    fadeMs: number({ min: 0 }),
+    hours: timeRange(/^(([01]\d|2[0-3]):[0-5]\d|24:00)$/, "an HH:MM time"),
+    seasons: list(timeRange(new RegExp(`^${MONTH_DAY}$`), "an MM-DD day")),
+    timeZone,
+  }),
+  adaptiveQuality: either(
+    ofType("boolean"),
+    object({
+      frameBudgetMs: number({ above: 0 }),
+      minQuality: number({ max: 1, min: 0 }),
+    })
+  ),
+  autoPause: ofType("boolean"),
+  batching: oneOf(["sprites", "paths", "none"]),
+  clock: ofType("function"),
+  imageLoading: oneOf(["wait", "swap"]),
+  imageUrls: list(
+    either(
+      ofType("string"),
+      objectWith(
+        {
+          radius: range({ min: 0 }),
+          src: ofType("string"),
+          weight: number({ min: 0 }),
+        },
+        "src"
+      )
+    )
+  ),
+  intensity: number({ max: 1, min: 0 }),
+  interaction: object({
+    mode: oneOf(["repel", "attract", "wake"]),
+    radius: number({ min: 0 }),
+    strength: number(),
+  }),
+  layers: list(
+    object({
+      ...snowflakeChecks,
+      parallax: number(),
+      snowflakeCount: number({ min: 0 }),
+    })
+  ),
+  maxFps: number({ above: 0 }),
+  maxPixelRatio: number({ above: 0 }),
+  parallax: object({
+    source: oneOf(["scroll", "pointer"]),
+    strength: number(),
+  }),
+  pixelRatio: either(oneOf(["auto"]), number({ above: 0 })),
+  preset: oneOf([
+    "light-flurry",
+    "blizzard",
+    "sleet",
+    "rain",
+    "cherry-blossom",
+    "confetti",
+    "autumn-leaves",
+  ]),
+  reducedMotion: oneOf(["respect", "ignore", "static"]),
+  renderer: oneOf(["2d", "webgl"]),
+  renderMode: oneOf(["main", "worker"]),
+  seed: either(ofType("string"), number()),
+  snowflakeCount: number({ min: 0 }),
+  snowflakeDensity: number({ min: 0 }),
+  timeline: objectWith(
+    {
+      keyframes: list(
+        objectWith(
+          {
+            at: number({ min: 0 }),
+            intensity: number({ max: 1, min: 0 }),
+            speed: range(),
+            wind: range(),
+          },
+          "at"
+        )
+      ),
+      loop: ofType("boolean"),
+    },
+    "keyframes"
+  ),
+  transitionMs: number({ min: 0 }),
+  windField: object({
+    base: number(),
+    gustFrequency: number({ min: 0 }),
+    gustStrength: number({ min: 0 }),
+    turbulence: number({ min: 0 }),
+    turbulenceScale: number({ above: 0 }),
+  }),
+};
+
+/**
+ * Log config issues with `console.warn`, by default only in development
+ * builds
+ */
+export const reportConfigIssues = (
+  issues: readonly ConfigIssue[],
+  { report = isDev() }: ValidateConfigOptions = {}
+): void => {
+  if (report && issues.length > 0) {
+    console.warn(
+      `Invalid snowfall config:\n${issues
+        .map(({ message, path }) => `  ${path}: ${message}`)
+        .join("\n")}`
+    );
+  }
+};
+
+/**
+ * Validate and normalize a (partial) config. Single numbers for ranges
+ * become `[value, value]`, inverted ranges are swapped, out-of-range numbers
+ * are clamped, and values that cannot be used (e.g. `changeFrequency: 0` or
+ * an invalid color) are dropped so the defaults apply.
+ */
+export const validateConfig = <T extends SnowfallCanvasConfig>(
+  config: T,
+  { report = isDev() }: ValidateConfigOptions = {}
+): ValidationResult<T> => {
+  const issues: ConfigIssue[] = [];
+  const validated = checkFields(
+    config as Record<string, unknown>,
+    configChecks,
+    "",
+    issues
+  ) as T;
+
+  reportConfigIssues(issues, { report });
+
+  return { config: validated, issues };
+};
@@ -0,0 +1,827 @@
+/**
+ * WebGLRenderer - Draws snowflakes as instanced quads with WebGL 2, shading
+ * circles, shapes and image textures and applying rotation in the vertex
+ * shader
+ */
+
+import { ShapeAtlas } from "./shape-atlas";
+import {
+  getStreak,
+  QUAD_ASPECT,
+  type ResolvedShape,
+  resolveShape,
+} from "./shapes";
+import type { Snowflake } from "./snowflake";
+import type { AccumulatedSnow, Renderer } from "./types";
+import { degreesToRadians, parseColor, type RGBA } from "./utils";
+
+/**
+ * GLSL float literal, e.g. for constants shared with the 2D renderer
+ */
+const glslFloat = (value: number): string => value.toFixed(6);
+
+const VERTEX_SHADER = `#version 300 es
+layout(location = 0) in vec2 a_corner;
+layout(location = 1) in vec3 a_center;
+layout(location = 2) in vec4 a_rotation;
+layout(location = 3) in vec4 a_color;
+layout(location = 4) in vec3 a_style;
+
+uniform vec2 u_resolution;
+
+out vec2 v_uv;
+out vec4 v_color;
+out vec3 v_shape;
+flat out float v_kind;
+
+void main() {
+  float mode = a_style.x;
+  float kind = a_style.z;
+  float radius = a_center.z;
+  // Grow the quad to fit the blur, which spreads about twice its radius
+  float extent = radius + a_style.y * 2.0;
+  vec2 scale = vec2(1.0);
+  float stretch = 1.0;
+  float angle = 0.0;
+
+  // Match the 2D renderer: flatten 3D rotations, spin flat images
+  if (kind == 1.0) {
+    // Streaks point along their velocity, a_rotation.y holds the
+    // half-length in radii
+    stretch = a_rotation.y;
+    scale = vec2(1.0, stretch);
+    angle = a_rotation.x;
+  } else if (kind == 2.0) {
+    // Quads spin, and tumble with 3D rotation
+    angle = a_rotation.x;
+    if (mode != 0.0) {
+      scale.y = cos(a_rotation.y);
+    }
+  } else if (mode == 1.0) {
+    scale = vec2(cos(a_rotation.z), cos(a_rotation.y));
+  } else if (mode == 2.0) {
+    scale = vec2(cos(a_rotation.z), cos(a_rotation.y)) * cos(a_rotation.w);
+  } else {
+    angle = a_rotation.x;
+  }
+
+  vec2 offset = a_corner * extent * scale;
+  offset = mat2(cos(angle), sin(angle), -sin(angle), cos(angle)) * offset;
+
+  vec2 clip = (a_center.xy + offset) / u_resolution * 2.0 - 1.0;
+  gl_Position = vec4(clip.x, -clip.y, 0.0, 1.0);
+  v_uv = a_corner * 0.5 + 0.5;
+  v_color = a_color;
+  float unit = max(radius, 0.001);
+  v_shape = vec3(extent / unit, a_style.y * 2.0 / unit, stretch);
+  v_kind = kind;
+}
+`;
+
+const FRAGMENT_SHADER = `#version 300 es
+precision mediump float;
+
+in vec2 v_uv;
+in vec4 v_color;
+in vec3 v_shape;
+flat in float v_kind;
+
+uniform sampler2D u_texture;
+uniform bool u_useTexture;
+
+out vec4 outColor;
+
+void main() {
+  if (u_useTexture) {
+    // Textures are tinted by the color, white for images
+    outColor = texture(u_texture, v_uv) * vec4(v_color.rgb, 1.0) * v_color.a;
+    return;
+  }
+
+  // Antialiased (or blurred) shape, output with premultiplied alpha.
+  // Distances are in multiples of the radius, with the edge at 1.
+  vec2 p = (v_uv * 2.0 - 1.0) * v_shape.x;
+  float dist = length(p);
+
+  if (v_kind == 1.0) {
+    p.y *= v_shape.z;
+    dist = length(vec2(p.x, max(abs(p.y) - v_shape.z + 1.0, 0.0)));
+  } else if (v_kind == 2.0) {
+    dist = 1.0 + max(abs(p.x) - 1.0, abs(p.y) - ${glslFloat(QUAD_ASPECT)});
+  }
+
+  float edge = fwidth(dist);
+  float spread = v_shape.y;
+  float alpha = v_color.a *
+    (1.0 - smoothstep(1.0 - edge - spread, 1.0 + spread, dist));
+  outColor = vec4(v_color.rgb * alpha, alpha);
+}
+`;
+
+const SURFACE_VERTEX_SHADER = `#version 300 es
+layout(location = 0) in vec2 a_position;
+
+uniform vec2 u_resolution;
+
+void main() {
+  vec2 clip = a_position / u_resolution * 2.0 - 1.0;
+  gl_Position = vec4(clip.x, -clip.y, 0.0, 1.0);
+}
+`;
+
+const SURFACE_FRAGMENT_SHADER = `#version 300 es
+precision mediump float;
+
+uniform vec4 u_color;
+
+out vec4 outColor;
+
+void main() {
+  outColor = u_color;
+}
+`;
+
+/** Instance layout: x, y, radius, rotation (4), color (4), mode, blur, shape */
+const FLOATS_PER_INSTANCE = 14;
+const BYTES_PER_FLOAT = 4;
+
+/** How the vertex shader transforms an instance */
+const MODE_FLAT = 0;
+const MODE_CIRCLE_3D = 1;
+const MODE_IMAGE_3D = 2;
+
+/** Shapes the fragment shader cuts out of untextured quads */
+type ShaderShape = "circle" | "streak" | "quad";
+
+/** How the fragment shader shapes untextured snowflakes */
+const SHAPES: Record<ShaderShape, number> = {
+  circle: 0,
+  quad: 2,
+  streak: 1,
+};
+
+/** Color that leaves image textures untinted */
+const WHITE: RGBA = [1, 1, 1, 1];
+
+/**
+ * How an instance is drawn: from a texture (an image, or a crystal or star
+ * bitmap tinted by the color), or as a shape cut out by the fragment shader
+ */
+interface InstanceStyle {
+  /** The texture source, or null for shader shapes */
+  image: CanvasImageSource | null;
+  /** The half-size of the quad, in CSS pixels */
+  radius: number;
+  shape: ResolvedShape;
+}
+
+/**
+ * Get the 2D rotation angle and the x axis rotation of an instance, in
+ * radians. Streaks point along their velocity and pass their half-length
+ * in radii in place of the x axis rotation.
+ */
+const getRotation = (
+  snowflake: Snowflake,
+  { image, shape }: InstanceStyle
+): [number, number] => {
+  const params = snowflake.getParams();
+
+  if (shape === "streak") {
+    const { angle, length } = getStreak(params);
+    return [angle, length / 2 / params.radius];
+  }
+
+  // Circles are round, so only textures and other shapes spin
+  return [
+    shape === "circle" && !image ? 0 : degreesToRadians(params.rotation),
+    degreesToRadians(params.rotationX),
+  ];
+};
+
+/** Color used when a snowflake color cannot be parsed */
+const FALLBACK_COLOR: RGBA = [255, 255, 255, 1];
+
+/** Drop the parsed color cache past this many colors */
+const MAX_COLORS = 256;
+
+/**
+ * Compile a shader, throwing with the info log on failure
+ */
+const compileShader = (
+  gl: WebGL2RenderingContext,
+  type: number,
+  source: string
+): WebGLShader => {
+  const shader = gl.createShader(type);
+
+  if (!shader) {
+    throw new Error("Could not create WebGL shader");
+  }
+
+  gl.shaderSource(shader, source);
+  gl.compileShader(shader);
+
+  if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+    const log = gl.getShaderInfoLog(shader);
+    gl.deleteShader(shader);
+    throw new Error(`Could not compile WebGL shader: ${log}`);
+  }
+
+  return shader;
+};
+
+/**
+ * Link a shader program
+ */
+const createProgram = (
+  gl: WebGL2RenderingContext,
+  vertexSource: string,
+  fragmentSource: string
+): WebGLProgram => {
+  const program = gl.createProgram();
+  const vertexShader = compileShader(gl, gl.VERTEX_SHADER, vertexSource);
+  const fragmentShader = compileShader(gl, gl.FRAGMENT_SHADER, fragmentSource);
+
+  gl.attachShader(program, vertexShader);
+  gl.attachShader(program, fragmentShader);
+  gl.linkProgram(program);
+  gl.deleteShader(vertexShader);
+  gl.deleteShader(fragmentShader);
+
+  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+    const log = gl.getProgramInfoLog(program);
+    gl.deleteProgram(program);
+    throw new Error(`Could not link WebGL program: ${log}`);
+  }
+
+  return program;
+};
+
+/**
+ * The GPU objects of a renderer, recreated when a lost context is restored
+ */
+interface GpuResources {
+  cornerBuffer: WebGLBuffer;
+  instanceBuffer: WebGLBuffer;
+  program: WebGLProgram;
+  resolutionLocation: WebGLUniformLocation | null;
+  surfaceBuffer: WebGLBuffer;
+  surfaceColorLocation: WebGLUniformLocation | null;
+  surfaceProgram: WebGLProgram;
+  surfaceResolutionLocation: WebGLUniformLocation | null;
+  surfaceVertexArray: WebGLVertexArrayObject;
+  useTextureLocation: WebGLUniformLocation | null;
+  vertexArray: WebGLVertexArrayObject;
+}
+
+/**
+ * Build the shader programs and buffers, throwing when a shader does not
+ * compile or link
+ */
+const createResources = (gl: WebGL2RenderingContext): GpuResources => {
+  const program = createProgram(gl, VERTEX_SHADER, FRAGMENT_SHADER);
+  const surfaceProgram = createProgram(
+    gl,
+    SURFACE_VERTEX_SHADER,
+    SURFACE_FRAGMENT_SHADER
+  );
+
+  return {
+    cornerBuffer: gl.createBuffer(),
+    instanceBuffer: gl.createBuffer(),
+    program,
+    resolutionLocation: gl.getUniformLocation(program, "u_resolution"),
+    surfaceBuffer: gl.createBuffer(),
+    surfaceColorLocation: gl.getUniformLocation(surfaceProgram, "u_color"),
+    surfaceProgram,
+    surfaceResolutionLocation: gl.getUniformLocation(
+      surfaceProgram,
+      "u_resolution"
+    ),
+    surfaceVertexArray: gl.createVertexArray(),
+    useTextureLocation: gl.getUniformLocation(program, "u_useTexture"),
+    vertexArray: gl.createVertexArray(),
+  };
+};
+
+/**
+ * Release the shader programs and buffers
+ */
+const deleteResources = (
+  gl: WebGL2RenderingContext,
+  resources: GpuResources
+): void => {
+  gl.deleteBuffer(resources.cornerBuffer);
+  gl.deleteBuffer(resources.instanceBuffer);
+  gl.deleteVertexArray(resources.vertexArray);
+  gl.deleteProgram(resources.program);
+  gl.deleteBuffer(resources.surfaceBuffer);
+  gl.deleteVertexArray(resources.surfaceVertexArray);
+  gl.deleteProgram(resources.surfaceProgram);
+};
+
+/**
+ * Check on a throwaway canvas that WebGL 2 is available and the shaders
+ * build, so the real canvas can still get a 2D context when they do not
+ */
+const probeWebGL = (): boolean => {
+  try {
+    const probe =
+      typeof OffscreenCanvas === "function"
+        ? new OffscreenCanvas(1, 1)
+        : document.createElement("canvas");
+    const gl = probe.getContext("webgl2") as WebGL2RenderingContext | null;
+
+    if (!gl) {
+      return false;
+    }
+
+    deleteResources(gl, createResources(gl));
+    gl.getExtension("WEBGL_lose_context")?.loseContext();
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+let webglSupport: boolean | undefined;
+
+/**
+ * Check whether the WebGL renderer can run, probing once per page
+ */
+export const supportsWebGL = (): boolean => {
+  webglSupport ??= probeWebGL();
+  return webglSupport;
+};
+
+export class WebGLRenderer implements Renderer {
+  private readonly canvas: HTMLCanvasElement | OffscreenCanvas;
+  private readonly gl: WebGL2RenderingContext;
+  private gpu: GpuResources;
+  private readonly textures = new Map<CanvasImageSource, WebGLTexture | null>();
+  private readonly colors = new Map<string, RGBA>();
+  private readonly shapes = new ShapeAtlas();
+  private readonly batches = new Map<CanvasImageSource | null, Snowflake[]>();
+  private readonly drawnImages = new Set<CanvasImageSource | null>();
+  private instanceData = new Float32Array(0);
+  private surfaceData = new Float32Array(0);
+  private width: number;
+  private height: number;
+
+  constructor(canvas: HTMLCanvasElement | OffscreenCanvas) {
+    this.canvas = canvas;
+    const gl = canvas.getContext("webgl2", { premultipliedAlpha: true });
+
+    if (!gl) {
+      throw new Error("Could not get WebGL 2 context from canvas");
+    }
+
+    this.gl = gl as WebGL2RenderingContext;
+    this.gpu = createResources(this.gl);
+    this.width = canvas.width;
+    this.height = canvas.height;
+    this.setupAttributes();
+
+    const target: EventTarget = canvas;
+    target.addEventListener("webglcontextlost", this.handleContextLost);
+    target.addEventListener("webglcontextrestored", this.handleContextRestored);
+  }
+
+  /**
+   * Drop the textures of the lost context and ask for it to be restored
+   */
+  private readonly handleContextLost = (event: Event): void => {
+    event.preventDefault();
+    this.textures.clear();
+  };
+
+  /**
+   * Rebuild the GPU objects once the context is back
+   */
+  private readonly handleContextRestored = (): void => {
+    this.gpu = createResources(this.gl);
+    this.setupAttributes();
+    this.gl.viewport(0, 0, this.canvas.width, this.canvas.height);
+  };
+
+  /**
+   * Describe the quad corners and the per-instance attribute layout
+   */
+  private setupAttributes(): void {
+    const { gl } = this;
+    const stride = FLOATS_PER_INSTANCE * BYTES_PER_FLOAT;
+
+    gl.bindVertexArray(this.gpu.vertexArray);
+
+    // Two triangles covering the unit quad
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.gpu.cornerBuffer);
+    gl.bufferData(
+      gl.ARRAY_BUFFER,
+      new Float32Array([-1, -1, 1, -1, -1, 1, -1, 1, 1, -1, 1, 1]),
+      gl.STATIC_DRAW
+    );
+    gl.enableVertexAttribArray(0);
+    gl.vertexAttribPointer(0, 2, gl.FLOAT, false, 0, 0);
+
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.gpu.instanceBuffer);
+
+    for (const [location, size, offset] of [
+      [1, 3, 0],
+      [2, 4, 3],
+      [3, 4, 7],
+      [4, 3, 11],
+    ]) {
+      gl.enableVertexAttribArray(location);
+      gl.vertexAttribPointer(
+        location,
+        size,
+        gl.FLOAT,
+        false,
+        stride,
+        offset * BYTES_PER_FLOAT
+      );
+      gl.vertexAttribDivisor(location, 1);
+    }
+
+    gl.bindVertexArray(null);
+
+    // Settled snow outlines, as 2D positions
+    gl.bindVertexArray(this.gpu.surfaceVertexArray);
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.gpu.surfaceBuffer);
+    gl.enableVertexAttribArray(0);
+    gl.vertexAttribPointer(0, 2, gl.FLOAT, false, 0, 0);
+    gl.bindVertexArray(null);
+
+    gl.enable(gl.BLEND);
+    gl.blendFunc(gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
+    gl.pixelStorei(gl.UNPACK_PREMULTIPLY_ALPHA_WEBGL, true);
+  }
+
+  /**
+   * Get the parsed color channels (0-1) for a CSS color, caching the result
+   */
+  private getColor(color: string): RGBA {
+    let rgba = this.colors.get(color);
+
+    if (!rgba) {
+      // Color transitions produce a new string every frame
+      if (this.colors.size >= MAX_COLORS) {
+        this.colors.clear();
+      }
+
+      const [r, g, b, a] = parseColor(color) ?? FALLBACK_COLOR;
+      rgba = [r / 255, g / 255, b / 255, a];
+      this.colors.set(color, rgba);
+    }
+
+    return rgba;
+  }
+
+  /**
+   * Get (or upload) the texture for an image
+   */
+  private getTexture(image: CanvasImageSource): WebGLTexture | null {
+    // Images that failed to upload are cached as null so they are skipped
+    if (this.textures.has(image)) {
+      return this.textures.get(image) ?? null;
+    }
+
+    const { gl } = this;
+    const texture = gl.createTexture();
+
+    gl.bindTexture(gl.TEXTURE_2D, texture);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+
+    try {
+      gl.texImage2D(
+        gl.TEXTURE_2D,
+        0,
+        gl.RGBA,
+        gl.RGBA,
+        gl.UNSIGNED_BYTE,
+        image as TexImageSource
+      );
+    } catch (err) {
+      // e.g. SVG image elements, which WebGL cannot upload
+      console.warn("Could not upload snowflake image to WebGL:", err);
+      gl.deleteTexture(texture);
+      this.textures.set(image, null);
+      return null;
+    }
+
+    this.textures.set(image, texture);
+    return texture;
+  }
+
+  /**
+   * Resolve how a snowflake is drawn, rasterizing crystals and stars as
+   * white bitmaps at the largest size so the texture is shared
+   */
+  private getStyle(snowflake: Snowflake): InstanceStyle {
+    const params = snowflake.getParams();
+    const config = snowflake.getConfig();
+
+    if (params.image) {
+      return { image: params.image, radius: params.radius, shape: "circle" };
+    }
+
+    const [shape, design] = resolveShape(config, params);
+
+    if (shape !== "crystal" && shape !== "star") {
+      return { image: null, radius: params.radius, shape };
+    }
+
+    const sprite = this.shapes.getSprite(
+      shape,
+      design,
+      config.crystalComplexity ?? 2,
+      "#ffffff",
+      Number.POSITIVE_INFINITY
+    );
+
+    return {
+      image: sprite.canvas,
+      radius: (params.radius * sprite.size) / sprite.radius / 2,
+      shape,
+    };
+  }
+
+  /**
+   * Group a run of snowflakes by texture (null for shader shapes) into
+   * reused batches
+   */
+  private groupParticles(
+    particles: readonly Snowflake[],
+    start: number,
+    end: number
+  ): void {
+    for (const batch of this.batches.values()) {
+      batch.length = 0;
+    }
+
+    for (let index = start; index < end; index += 1) {
+      const snowflake = particles[index];
+      const { image } = this.getStyle(snowflake);
+      const batch = this.batches.get(image);
+
+      if (batch) {
+        batch.push(snowflake);
+      } else {
+        this.batches.set(image, [snowflake]);
+      }
+    }
+  }
+
+  /**
+   * Write the instance attributes for a batch into the instance buffer
+   */
+  private writeInstances(batch: readonly Snowflake[]): void {
+    const length = batch.length * FLOATS_PER_INSTANCE;
+
+    if (this.instanceData.length < length) {
+      this.instanceData = new Float32Array(length);
+    }
+
+    const data = this.instanceData;
+
+    for (const [index, snowflake] of batch.entries()) {
+      const params = snowflake.getParams();
+      const config = snowflake.getConfig();
+      const style = this.getStyle(snowflake);
+      const [r, g, b, a] = params.image ? WHITE : this.getColor(config.color);
+      const offset = index * FLOATS_PER_INSTANCE;
+      const [angle, rotationX] = getRotation(snowflake, style);
+      let mode = MODE_FLAT;
+
+      if (config.enable3DRotation) {
+        mode = style.image ? MODE_IMAGE_3D : MODE_CIRCLE_3D;
+      }
+
+      data[offset] = params.x;
+      data[offset + 1] = params.y;
+      data[offset + 2] = style.radius;
+      data[offset + 3] = angle;
+      data[offset + 4] = rotationX;
+      data[offset + 5] = degreesToRadians(params.rotationY);
+      data[offset + 6] = degreesToRadians(params.rotationZ);
+      data[offset + 7] = r;
+      data[offset + 8] = g;
+      data[offset + 9] = b;
+      data[offset + 10] = params.opacity * a;
+      data[offset + 11] = mode;
+      // Blur softens shader shapes only, textures would need blurring
+      data[offset + 12] = style.image ? 0 : (config.blur ?? 0);
+      data[offset + 13] = style.image ? 0 : SHAPES[style.shape as ShaderShape];
+    }
+
+    this.gl.bindBuffer(this.gl.ARRAY_BUFFER, this.gpu.instanceBuffer);
+    this.gl.bufferData(
+      this.gl.ARRAY_BUFFER,
+      this.instanceData.subarray(0, length),
+      this.gl.STREAM_DRAW
+    );
+  }
+
+  /**
+   * Draw settled snow as one triangle strip per surface
+   */
+  private drawAccumulation({ color, surfaces }: AccumulatedSnow): void {
+    const { gl } = this;
+    const [r, g, b, a] = this.getColor(color);
+    let length = 0;
+
+    for (const { heights } of surfaces) {
+      length += (heights.length + 2) * 4;
+    }
+
+    if (this.surfaceData.length < length) {
+      this.surfaceData = new Float32Array(length);
+    }
+
+    // Pair each point of the outline with the point below it on the surface
+    const data = this.surfaceData;
+    let offset = 0;
+
+    const addColumn = (x: number, top: number, height: number): void => {
+      data.set([x, top, x, top - height], offset);
+      offset += 4;
+    };
+
+    for (const { columnWidth, heights, left, top, width } of surfaces) {
+      addColumn(left, top, 0);
+
+      for (const [index, height] of heights.entries()) {
+        addColumn(left + (index + 0.5) * columnWidth, top, height);
+      }
+
+      addColumn(left + width, top, 0);
+    }
+
+    // biome-ignore lint/correctness/useHookAtTopLevel: WebGL API, not a React hook
+    gl.useProgram(this.gpu.surfaceProgram);
+    gl.bindVertexArray(this.gpu.surfaceVertexArray);
+    gl.uniform2f(this.gpu.surfaceResolutionLocation, this.width, this.height);
+    gl.uniform4f(this.gpu.surfaceColorLocation, r * a, g * a, b * a, a);
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.gpu.surfaceBuffer);
+    gl.bufferData(gl.ARRAY_BUFFER, data.subarray(0, length), gl.STREAM_DRAW);
+
+    let first = 0;
+
+    for (const { heights } of surfaces) {
+      const count = (heights.length + 2) * 2;
+      gl.drawArrays(gl.TRIANGLE_STRIP, first, count);
+      first += count;
+    }
+
+    gl.bindVertexArray(null);
+  }
+
+  /**
+   * Drop batches and textures for images that are no longer drawn
+   */
+  private prune(): void {
+    for (const image of this.batches.keys()) {
+      if (!this.drawnImages.has(image)) {
+        this.batches.delete(image);
+      }
+    }
+
+    for (const [image, texture] of this.textures) {
+      if (!this.drawnImages.has(image)) {
+        this.gl.deleteTexture(texture);
+        this.textures.delete(image);
+      }
+    }
+  }
+
+  /**
+   * Size the canvas backing store for the pixel ratio, keeping drawing in
+   * CSS pixel coordinates
+   */
+  resize(width: number, height: number, pixelRatio: number): void {
+    this.width = width;
+    this.height = height;
+    this.canvas.width = Math.round(width * pixelRatio);
+    this.canvas.height = Math.round(height * pixelRatio);
+    this.gl.viewport(0, 0, this.canvas.width, this.canvas.height);
+    this.shapes.setPixelRatio(pixelRatio);
+  }
+
+  /**
+   * Clear the canvas
+   */
+  clear(): void {
+    this.gl.clearColor(0, 0, 0, 0);
+    this.gl.clear(this.gl.COLOR_BUFFER_BIT);
+  }
+
+  /**
+   * Draw a run of snowflakes from one layer, one instanced draw call per
+   * image
+   */
+  private drawLayer(
+    particles: readonly Snowflake[],
+    start: number,
+    end: number
+  ): void {
+    const { gl } = this;
+
+    if (start >= end) {
+      return;
+    }
+
+    this.groupParticles(particles, start, end);
+
+    for (const [image, batch] of this.batches) {
+      if (batch.length === 0) {
+        continue;
+      }
+
+      this.drawnImages.add(image);
+      const texture = image ? this.getTexture(image) : null;
+
+      if (image && !texture) {
+        continue;
+      }
+
+      gl.uniform1i(this.gpu.useTextureLocation, texture ? 1 : 0);
+      gl.bindTexture(gl.TEXTURE_2D, texture);
+      this.writeInstances(batch);
+      gl.drawArraysInstanced(gl.TRIANGLES, 0, 6, batch.length);
+    }
+  }
+
+  /**
+   * Render all snowflakes, one instanced draw call per image and layer, with
+   * settled snow on top
+   */
+  render(
+    particles: readonly Snowflake[],
+    accumulation?: AccumulatedSnow
+  ): void {
+    const { gl } = this;
+
+    // Skip frames until a lost context is restored
+    if (gl.isContextLost()) {
+      return;
+    }
+
+    this.clear();
+    this.drawnImages.clear();
+
+    // biome-ignore lint/correctness/useHookAtTopLevel: WebGL API, not a React hook
+    gl.useProgram(this.gpu.program);
+    gl.bindVertexArray(this.gpu.vertexArray);
+    gl.uniform2f(this.gpu.resolutionLocation, this.width, this.height);
+
+    // Batch each layer on its own so layers keep their back-to-front order
+    let start = 0;
+
+    for (const [index, snowflake] of particles.entries()) {
+      if (
+        index > start &&
+        snowflake.getConfig() !== particles[index - 1].getConfig()
+      ) {
+        this.drawLayer(particles, start, index);
+        start = index;
+      }
+    }
+
+    this.drawLayer(particles, start, particles.length);
+
+    gl.bindVertexArray(null);
+    this.prune();
+
+    if (accumulation) {
+      this.drawAccumulation(accumulation);
+    }
+  }
+
+  /**
+   * Clear the canvas and release all GPU resources
+   */
+  destroy(): void {
+    const { gl } = this;
+
+    this.clear();
+
+    for (const texture of this.textures.values()) {
+      gl.deleteTexture(texture);
+    }
+
+    this.textures.clear();
+    this.batches.clear();
+    this.shapes.clear();
+    deleteResources(gl, this.gpu);
+
+    const target: EventTarget = this.canvas;
+    target.removeEventListener("webglcontextlost", this.handleContextLost);
+    target.removeEventListener(
+      "webglcontextrestored",
+      this.handleContextRestored
+    );
+  }
+}
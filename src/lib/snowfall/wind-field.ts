@@ -0,0 +1,133 @@
+/**
+ * WindField - A global wind with gusts and turbulence, sampled by every
+ * snowflake from smooth value noise over position and time
+ */
+
+import type { SnowfallWindField } from "./types";
+import { lerp, type RandomSource } from "./utils";
+
+/** Size of the noise lattice along each axis before it repeats */
+const LATTICE_SIZE = 256;
+
+/** How fast turbulence evolves, in lattice cells per second */
+const TURBULENCE_SPEED = 0.3;
+
+/**
+ * Ease lattice interpolation so the noise has no visible creases (smoothstep)
+ */
+const fade = (t: number): number => t * t * (3 - 2 * t);
+
+/**
+ * Wrap a lattice coordinate into the table
+ */
+const wrap = (index: number): number =>
+  ((index % LATTICE_SIZE) + LATTICE_SIZE) % LATTICE_SIZE;
+
+export class WindField {
+  private options: SnowfallWindField;
+  private readonly permutation: number[];
+  private readonly values: Float32Array;
+  private time = 0;
+
+  constructor(options: SnowfallWindField, rng: RandomSource = Math.random) {
+    this.options = options;
+    this.values = Float32Array.from({ length: LATTICE_SIZE }, () => rng());
+    this.permutation = Array.from({ length: LATTICE_SIZE }, (_, i) => i);
+
+    // Fisher-Yates shuffle
+    for (let index = LATTICE_SIZE - 1; index > 0; index -= 1) {
+      const swap = Math.floor(rng() * (index + 1));
+      [this.permutation[index], this.permutation[swap]] = [
+        this.permutation[swap],
+        this.permutation[index],
+      ];
+    }
+  }
+
+  /**
+   * Random value in [0, 1) at a lattice point
+   */
+  private lattice(x: number, y: number, z: number): number {
+    const { permutation } = this;
+    return this.values[
+      permutation[wrap(permutation[wrap(permutation[wrap(x)] + y)] + z)]
+    ];
+  }
+
+  /**
+   * Smooth value noise in [0, 1), trilinearly interpolated between
+   * lattice points
+   */
+  private noise(x: number, y: number, z: number): number {
+    const x0 = Math.floor(x);
+    const y0 = Math.floor(y);
+    const z0 = Math.floor(z);
+    const tx = fade(x - x0);
+    const ty = fade(y - y0);
+    const tz = fade(z - z0);
+
+    const plane = (zi: number): number =>
+      lerp(
+        lerp(this.lattice(x0, y0, zi), this.lattice(x0 + 1, y0, zi), tx),
+        lerp(
+          this.lattice(x0, y0 + 1, zi),
+          this.lattice(x0 + 1, y0 + 1, zi),
+          tx
+        ),
+        ty
+      );
+
+    return lerp(plane(z0), plane(z0 + 1), tz);
+  }
+
+  /**
+   * Apply new options, keeping the noise and its time
+   */
+  setOptions(options: SnowfallWindField): void {
+    this.options = options;
+  }
+
+  /**
+   * Advance the wind by the given number of milliseconds
+   */
+  advance(dtMs: number): void {
+    this.time += dtMs / 1000;
+  }
+
+  /**
+   * The wind shared by the whole scene right now: the base wind plus gusts
+   */
+  getGlobalWind(): number {
+    const { base = 0, gustFrequency = 0.1, gustStrength = 0 } = this.options;
+
+    if (gustStrength === 0) {
+      return base;
+    }
+
+    // Peaks of 1D noise over time, so calm spells alternate with gusts
+    const gust = this.noise(this.time * gustFrequency, 0, 0) ** 3;
+    const direction = base < 0 ? -1 : 1;
+
+    return base + direction * gustStrength * gust;
+  }
+
+  /**
+   * Sample the wind at a position in CSS pixels, given the global wind
+   */
+  sample(globalWind: number, x: number, y: number): number {
+    const { turbulence = 0, turbulenceScale = 200 } = this.options;
+
+    if (turbulence === 0) {
+      return globalWind;
+    }
+
+    const scale = Math.max(turbulenceScale, 1);
+    const swirl = this.noise(
+      x / scale,
+      y / scale,
+      this.time * TURBULENCE_SPEED + LATTICE_SIZE / 2
+    );
+
+    return globalWind + (swirl * 2 - 1) * turbulence;
+  }
+}
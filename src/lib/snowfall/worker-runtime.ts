@@ -0,0 +1,300 @@
+/**
+ * WorkerRuntime - Proxies the simulation and frame loop to a Web Worker that
+ * draws to an OffscreenCanvas
+ */
+
+import { normalizeImages } from "./images";
+import type {
+  SnowfallCanvasConfig,
+  SnowfallPointer,
+  SnowfallRuntime,
+  SnowfallStats,
+  SnowfallWindField,
+  SnowflakeImageSource,
+  SurfaceRect,
+} from "./types";
+import { reportConfigIssues } from "./validate";
+
+/**
+ * Messages sent from the main thread to the snowfall worker
+ */
+export type SnowfallWorkerMessage =
+  | {
+      canvas: OffscreenCanvas;
+      config: SnowfallCanvasConfig;
+      height: number;
+      type: "init";
+      width: number;
+    }
+  | {
+      type:
+        | "clear"
+        | "clearAccumulation"
+        | "destroy"
+        | "renderStill"
+        | "start"
+        | "stop";
+    }
+  | { height: number; pixelRatio: number; type: "resize"; width: number }
+  | { images: SnowflakeImageSource[]; type: "setLoadedImages" }
+  | { dx: number; dy: number; type: "shift" }
+  | { durationMs: number; intensity: number; type: "setIntensity" }
+  | { pointer: SnowfallPointer | null; type: "setPointer" }
+  | { rects: SurfaceRect[]; type: "setSurfaces" }
+  | { type: "setWind"; wind: SnowfallWindField | undefined }
+  | { config: SnowfallCanvasConfig; type: "updateConfig" };
+
+/**
+ * Messages sent from the snowfall worker to the main thread
+ */
+export type SnowfallWorkerReply =
+  | { stats: SnowfallStats; type: "stats" }
+  | { message: string; type: "error" };
+
+/**
+ * Check whether a canvas can be rendered from a worker
+ */
+export const supportsWorkerRendering = (canvas: HTMLCanvasElement): boolean =>
+  typeof Worker === "function" &&
+  typeof OffscreenCanvas === "function" &&
+  typeof canvas.transferControlToOffscreen === "function";
+
+/**
+ * Whether every image is an ImageBitmap, the only images that can be cloned
+ * into a worker
+ */
+const isTransferable = (images: readonly SnowflakeImageSource[]): boolean =>
+  images.every(({ image }) => image instanceof ImageBitmap);
+
+/**
+ * Convert images to ImageBitmaps, reporting and skipping the ones that
+ * cannot be converted (e.g. SVGs without an intrinsic size)
+ */
+const toImageBitmaps = async (
+  images: readonly SnowflakeImageSource[]
+): Promise<SnowflakeImageSource[]> => {
+  const results = await Promise.allSettled(
+    images.map(async (source) =>
+      source.image instanceof ImageBitmap
+        ? source
+        : { ...source, image: await createImageBitmap(source.image) }
+    )
+  );
+
+  reportConfigIssues(
+    results.flatMap((result, index) =>
+      result.status === "rejected"
+        ? [
+            {
+              message:
+                "cannot be converted to an ImageBitmap for the worker; ignored",
+              path: `images[${index}]`,
+            },
+          ]
+        : []
+    )
+  );
+
+  return results.flatMap((result) =>
+    result.status === "fulfilled" ? [result.value] : []
+  );
+};
+
+export class WorkerRuntime implements SnowfallRuntime {
+  private readonly worker: Worker;
+  private imagesRequest = 0;
+  private loadedImagesRequest = 0;
+  private stats: SnowfallStats = {
+    activeFlakes: 0,
+    fps: 0,
+    frameTime: 0,
+    quality: 1,
+  };
+
+  constructor(
+    canvas: HTMLCanvasElement,
+    config: SnowfallCanvasConfig,
+    width: number,
+    height: number
+  ) {
+    this.worker = new Worker(new URL("./snowfall-worker.ts", import.meta.url), {
+      type: "module",
+    });
+
+    // Control of the canvas can only be transferred once
+    let offscreen: OffscreenCanvas;
+
+    try {
+      offscreen = canvas.transferControlToOffscreen();
+    } catch (err) {
+      this.worker.terminate();
+      throw err;
+    }
+
+    this.worker.addEventListener("message", this.handleReply);
+    this.worker.addEventListener("error", (event) => {
+      console.error("Snowfall worker failed to load:", event.message);
+    });
+
+    this.post(
+      {
+        canvas: offscreen,
+        config: this.toTransferableConfig(config),
+        height,
+        type: "init",
+        width,
+      },
+      [offscreen]
+    );
+  }
+
+  /**
+   * Keep the latest stats, since reading them from the worker is async, and
+   * report errors thrown in the worker. The canvas belongs to the worker by
+   * then, so there is no falling back.
+   */
+  private readonly handleReply = (
+    event: MessageEvent<SnowfallWorkerReply>
+  ): void => {
+    const reply = event.data;
+
+    if (reply.type === "stats") {
+      this.stats = reply.stats;
+    } else {
+      console.error("Snowfall worker error:", reply.message);
+    }
+  };
+
+  /**
+   * Strip config values that cannot be cloned into a worker. Images other
+   * than ImageBitmaps are converted and sent once they are ready.
+   */
+  private toTransferableConfig({
+    clock,
+    ...config
+  }: SnowfallCanvasConfig): SnowfallCanvasConfig {
+    if (clock) {
+      reportConfigIssues([
+        { message: "cannot be sent to a worker; ignored", path: "clock" },
+      ]);
+    }
+
+    if (!("images" in config)) {
+      return config;
+    }
+
+    // Newer images replace any still being converted
+    this.imagesRequest += 1;
+    const request = this.imagesRequest;
+    const { images, ...rest } = config;
+
+    if (!images) {
+      return config;
+    }
+
+    const sources = normalizeImages(images);
+
+    if (isTransferable(sources)) {
+      return { ...rest, images: sources };
+    }
+
+    toImageBitmaps(sources).then((bitmaps) => {
+      if (request === this.imagesRequest) {
+        this.post({ config: { images: bitmaps }, type: "updateConfig" });
+      }
+    });
+
+    return rest;
+  }
+
+  /**
+   * Send a message to the worker
+   */
+  private post(
+    message: SnowfallWorkerMessage,
+    transfer: Transferable[] = []
+  ): void {
+    this.worker.postMessage(message, transfer);
+  }
+
+  start(): void {
+    this.post({ type: "start" });
+  }
+
+  stop(): void {
+    this.post({ type: "stop" });
+  }
+
+  renderStill(): void {
+    this.post({ type: "renderStill" });
+  }
+
+  clear(): void {
+    this.post({ type: "clear" });
+  }
+
+  updateConfig(config: SnowfallCanvasConfig): void {
+    this.post({
+      config: this.toTransferableConfig(config),
+      type: "updateConfig",
+    });
+  }
+
+  resize(width: number, height: number, pixelRatio: number): void {
+    this.post({ height, pixelRatio, type: "resize", width });
+  }
+
+  shift(dx: number, dy: number): void {
+    this.post({ dx, dy, type: "shift" });
+  }
+
+  setSurfaces(rects: SurfaceRect[]): void {
+    this.post({ rects, type: "setSurfaces" });
+  }
+
+  clearAccumulation(): void {
+    this.post({ type: "clearAccumulation" });
+  }
+
+  setWind(wind: SnowfallWindField | undefined): void {
+    this.post({ type: "setWind", wind });
+  }
+
+  setIntensity(intensity: number, durationMs: number): void {
+    this.post({ durationMs, intensity, type: "setIntensity" });
+  }
+
+  setPointer(pointer: SnowfallPointer | null): void {
+    this.post({ pointer, type: "setPointer" });
+  }
+
+  setLoadedImages(images: SnowflakeImageSource[]): void {
+    this.loadedImagesRequest += 1;
+    const request = this.loadedImagesRequest;
+
+    if (isTransferable(images)) {
+      this.post({ images, type: "setLoadedImages" });
+      return;
+    }
+
+    toImageBitmaps(images).then((bitmaps) => {
+      if (request === this.loadedImagesRequest) {
+        this.post({ images: bitmaps, type: "setLoadedImages" });
+      }
+    });
+  }
+
+  getStats(): SnowfallStats {
+    return this.stats;
+  }
+
+  /**
+   * Let the worker clear the canvas and close itself, since terminating it
+   * right away would drop the message
+   */
+  destroy(): void {
+    this.imagesRequest += 1;
+    this.loadedImagesRequest += 1;
+    this.post({ type: "destroy" });
+  }
+}
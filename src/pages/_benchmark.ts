@@ -0,0 +1,159 @@
+/**
+ * Benchmark - Measures how many snowflakes each batching strategy can
+ * animate while holding a target frame rate
+ */
+
+import { Canvas2DRenderer } from "../lib/snowfall/canvas-2d-renderer";
+import { SnowfallSimulation } from "../lib/snowfall/simulation";
+import type { SnowfallCanvasConfig } from "../lib/snowfall/types";
+
+type Batching = NonNullable<SnowfallCanvasConfig["batching"]>;
+
+/**
+ * A single benchmark measurement
+ */
+export interface BenchmarkResult {
+  batching: Batching;
+  /** Average frames per second, capped by the display refresh rate */
+  fps: number;
+  /** Average time spent simulating and drawing a frame, in milliseconds */
+  frameTime: number;
+  snowflakeCount: number;
+}
+
+/**
+ * Options for `runBenchmark`
+ */
+export interface BenchmarkOptions {
+  /** Batching strategies to compare */
+  batching?: Batching[];
+  /** Canvas to draw to, sized in CSS pixels */
+  canvas: HTMLCanvasElement;
+  /** Snowflake config shared by every run */
+  config?: SnowfallCanvasConfig;
+  /** Snowflake counts to try, in increasing order */
+  counts?: number[];
+  /** Frames measured per count */
+  frames?: number;
+  /** Called after every measurement */
+  onResult?: (result: BenchmarkResult) => void;
+  /** The frame rate a count has to hold to be considered smooth */
+  targetFps?: number;
+}
+
+/** Frames skipped before measuring, letting sprite caches warm up */
+const WARMUP_FRAMES = 10;
+
+/**
+ * Wait for the next animation frame
+ */
+const nextFrame = (): Promise<number> =>
+  new Promise((resolve) => requestAnimationFrame(resolve));
+
+/**
+ * Animate a number of snowflakes and measure the frame rate
+ */
+const measure = async (
+  canvas: HTMLCanvasElement,
+  batching: Batching,
+  snowflakeCount: number,
+  frames: number,
+  config: SnowfallCanvasConfig
+): Promise<BenchmarkResult> => {
+  const { width, height } = canvas;
+  const renderer = new Canvas2DRenderer(canvas, { batching });
+  const simulation = new SnowfallSimulation(
+    { seed: "benchmark", ...config, snowflakeCount },
+    width,
+    height
+  );
+
+  // Start with the snowflakes spread over the canvas, not above it
+  simulation.scatter();
+  renderer.resize(width, height, window.devicePixelRatio || 1);
+
+  let start = 0;
+  let work = 0;
+
+  for (let frame = 0; frame < WARMUP_FRAMES + frames; frame += 1) {
+    // biome-ignore lint/performance/noAwaitInLoops: Frames are sequential
+    const timestamp = await nextFrame();
+
+    if (frame === WARMUP_FRAMES) {
+      start = timestamp;
+      work = 0;
+    }
+
+    const before = performance.now();
+    simulation.step(1000 / 60);
+    renderer.render(simulation.getParticles());
+    work += performance.now() - before;
+  }
+
+  const elapsed = (await nextFrame()) - start;
+
+  // Restore the canvas size, which `resize` scaled by the pixel ratio
+  renderer.destroy();
+  canvas.width = width;
+  canvas.height = height;
+
+  return {
+    batching,
+    fps: (frames * 1000) / elapsed,
+    frameTime: work / frames,
+    snowflakeCount,
+  };
+};
+
+/**
+ * Measure each batching strategy at increasing snowflake counts, moving on
+ * to the next strategy once a count drops below the target frame rate
+ */
+export const runBenchmark = async ({
+  batching = ["none", "paths", "sprites"],
+  canvas,
+  config = {},
+  counts = [250, 500, 1000, 2000, 4000, 8000, 16_000],
+  frames = 60,
+  onResult,
+  targetFps = 60,
+}: BenchmarkOptions): Promise<BenchmarkResult[]> => {
+  const results: BenchmarkResult[] = [];
+
+  for (const strategy of batching) {
+    for (const count of counts) {
+      // biome-ignore lint/performance/noAwaitInLoops: Runs must not overlap
+      const result = await measure(canvas, strategy, count, frames, config);
+      results.push(result);
+      onResult?.(result);
+
+      // Allow a little jitter below the target before giving up
+      if (result.fps < targetFps * 0.95) {
+        break;
+      }
+    }
+  }
+
+  return results;
+};
+
+/**
+ * Get the highest snowflake count per strategy that held the target frame rate
+ */
+export const getMaxSnowflakes = (
+  results: readonly BenchmarkResult[],
+  targetFps = 60
+): Partial<Record<Batching, number>> => {
+  const max: Partial<Record<Batching, number>> = {};
+
+  for (const { batching, fps, snowflakeCount } of results) {
+    if (
+      fps >= targetFps * 0.95 &&
+      snowflakeCount > (max[batching] ?? Number.NEGATIVE_INFINITY)
+    ) {
+      max[batching] = snowflakeCount;
+    }
+  }
+
+  return max;
+};
@@ -0,0 +1,82 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  isActiveWindowOpen,
+  watchActiveWindow,
+} from "../src/lib/snowfall/active-window";
+
+const at = (iso: string): Date => new Date(iso);
+
+describe("isActiveWindowOpen", () => {
+  it("is open on every day without dates or seasons", () => {
+    expect(
+      isActiveWindowOpen({ timeZone: "UTC" }, at("2026-06-15T12:00Z"))
+    ).toBe(true);
+  });
+
+  it("includes both ends of date ranges", () => {
+    const window = {
+      dates: [{ end: "2026-12-31", start: "2026-12-24" }],
+      timeZone: "UTC",
+    };
+
+    expect(isActiveWindowOpen(window, at("2026-12-24T00:00Z"))).toBe(true);
+    expect(isActiveWindowOpen(window, at("2026-12-31T23:59Z"))).toBe(true);
+    expect(isActiveWindowOpen(window, at("2027-01-01T00:00Z"))).toBe(false);
+  });
+
+  it("wraps seasons past new year", () => {
+    const window = {
+      seasons: [{ end: "01-06", start: "12-01" }],
+      timeZone: "UTC",
+    };
+
+    expect(isActiveWindowOpen(window, at("2026-12-15T12:00Z"))).toBe(true);
+    expect(isActiveWindowOpen(window, at("2027-01-06T12:00Z"))).toBe(true);
+    expect(isActiveWindowOpen(window, at("2027-01-07T12:00Z"))).toBe(false);
+  });
+
+  it("wraps hours past midnight with an exclusive end", () => {
+    const window = { hours: { end: "02:00", start: "22:00" }, timeZone: "UTC" };
+
+    expect(isActiveWindowOpen(window, at("2026-06-15T23:30Z"))).toBe(true);
+    expect(isActiveWindowOpen(window, at("2026-06-15T01:59Z"))).toBe(true);
+    expect(isActiveWindowOpen(window, at("2026-06-15T02:00Z"))).toBe(false);
+  });
+
+  it("evaluates dates and hours in the given time zone", () => {
+    const window = {
+      dates: [{ end: "2026-12-24", start: "2026-12-24" }],
+      timeZone: "Asia/Tokyo",
+    };
+
+    // 2026-12-23 20:00 UTC is already the 24th in Tokyo
+    expect(isActiveWindowOpen(window, at("2026-12-23T20:00Z"))).toBe(true);
+  });
+});
+
+describe("watchActiveWindow", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("reports when the window opens and closes, until stopped", () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(at("2026-06-15T21:59:30Z"));
+
+    const onChange = vi.fn();
+    const stop = watchActiveWindow(
+      { hours: { end: "22:02", start: "22:00" }, timeZone: "UTC" },
+      onChange
+    );
+
+    vi.advanceTimersByTime(60_000);
+    expect(onChange).toHaveBeenLastCalledWith(true);
+
+    vi.advanceTimersByTime(120_000);
+    expect(onChange).toHaveBeenLastCalledWith(false);
+
+    stop();
+    vi.advanceTimersByTime(24 * 60 * 60_000);
+    expect(onChange).toHaveBeenCalledTimes(2);
+  });
+});
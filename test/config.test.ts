@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { diffConfig } from "../src/lib/snowfall/config";
+
+describe("diffConfig", () => {
+  it("keeps only the options that changed", () => {
+    expect(
+      diffConfig(
+        { color: "#fff", snowflakeCount: 100, speed: [60, 120] },
+        { color: "#fff", snowflakeCount: 200, speed: [60, 120] }
+      )
+    ).toEqual({ snowflakeCount: 200 });
+  });
+
+  it("compares arrays and objects by value", () => {
+    const previous = {
+      interaction: { mode: "repel" as const, radius: 100 },
+      layers: [{ radius: [1, 2] as [number, number] }],
+    };
+    const next = {
+      interaction: { mode: "repel" as const, radius: 100 },
+      layers: [{ radius: [1, 2] as [number, number] }],
+    };
+
+    expect(diffConfig(previous, next)).toEqual({});
+    expect(
+      diffConfig(previous, {
+        ...next,
+        interaction: { mode: "repel", radius: 150 },
+      })
+    ).toEqual({ interaction: { mode: "repel", radius: 150 } });
+  });
+
+  it("resets options that were removed", () => {
+    const diff = diffConfig(
+      { blur: 2, snowflakeCount: 100 },
+      { snowflakeCount: 100 }
+    );
+
+    expect(diff).toEqual({ blur: undefined });
+    expect("blur" in diff).toBe(true);
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, expect, it } from "vitest";
+import { SnowfallSimulation } from "../src/lib/snowfall/simulation";
+
+const getPositions = (simulation: SnowfallSimulation): number[][] =>
+  simulation.getParticles().map((flake) => {
+    const { x, y } = flake.getParams();
+    return [x, y];
+  });
+
+/**
+ * A still scene where every snowflake falls straight down at 120 px/s
+ */
+const createSimulation = (snowflakeCount = 10): SnowfallSimulation =>
+  new SnowfallSimulation(
+    { changeFrequency: 1e9, seed: 1, snowflakeCount, speed: 120, wind: 0 },
+    800,
+    100_000
+  );
+
+describe("SnowfallSimulation.step", () => {
+  it("moves snowflakes by their speed per second at any step size", () => {
+    for (const stepMs of [1000 / 30, 1000 / 60, 1000 / 144]) {
+      const simulation = createSimulation();
+      const before = simulation
+        .getParticles()
+        .map((flake) => flake.getParams().y);
+
+      for (let elapsed = 0; elapsed < 999; elapsed += stepMs) {
+        simulation.step(stepMs);
+      }
+
+      for (const [index, flake] of simulation.getParticles().entries()) {
+        expect(flake.getParams().y - before[index]).toBeCloseTo(120, 0);
+      }
+    }
+  });
+
+  it("clamps a long stall to a single short step", () => {
+    const simulation = createSimulation(1);
+    const [flake] = simulation.getParticles();
+    const { y } = flake.getParams();
+
+    simulation.step(60_000);
+
+    expect(flake.getParams().y - y).toBeCloseTo(12);
+  });
+});
+
+describe("SnowfallSimulation.updateConfig", () => {
+  it("only adds the missing snowflakes when the count grows", () => {
+    const simulation = createSimulation(10);
+    const before = [...simulation.getParticles()];
+
+    simulation.updateConfig({ snowflakeCount: 15 });
+
+    const after = simulation.getParticles();
+    expect(after).toHaveLength(15);
+    expect(after.slice(0, 10)).toEqual(before);
+  });
+
+  it("only removes the extra snowflakes when the count shrinks", () => {
+    const simulation = createSimulation(10);
+    const before = [...simulation.getParticles()];
+
+    simulation.updateConfig({ snowflakeCount: 4 });
+
+    expect(simulation.getParticles()).toEqual(before.slice(0, 4));
+  });
+
+  it("re-targets existing snowflakes to a new config in place", () => {
+    const simulation = createSimulation(10);
+    const before = [...simulation.getParticles()];
+
+    simulation.updateConfig({ color: "#ff0000" }, { immediate: true });
+
+    const after = simulation.getParticles();
+    expect(after).toEqual(before);
+    expect(after.every((flake) => flake.getConfig().color === "#ff0000")).toBe(
+      true
+    );
+  });
+});
+
+describe("SnowfallSimulation seeds", () => {
+  const run = (seed: number | string): number[][] => {
+    const simulation = new SnowfallSimulation(
+      { seed, snowflakeCount: 20 },
+      800,
+      600
+    );
+
+    for (let step = 0; step < 60; step += 1) {
+      simulation.step(1000 / 60);
+    }
+
+    return getPositions(simulation);
+  };
+
+  it("replays the same scene for the same seed", () => {
+    expect(run(42)).toEqual(run(42));
+    expect(run("storm")).toEqual(run("storm"));
+  });
+
+  it("gives a different scene for a different seed", () => {
+    expect(run(42)).not.toEqual(run(43));
+  });
+
+  it("starts a new scene when the seed changes", () => {
+    const simulation = new SnowfallSimulation(
+      { seed: 1, snowflakeCount: 20 },
+      800,
+      600
+    );
+    const before = getPositions(simulation);
+
+    simulation.updateConfig({ seed: 2 });
+
+    expect(getPositions(simulation)).toEqual(
+      getPositions(
+        new SnowfallSimulation({ seed: 2, snowflakeCount: 20 }, 800, 600)
+      )
+    );
+    expect(getPositions(simulation)).not.toEqual(before);
+  });
+});
@@ -0,0 +1,230 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { SnowfallCanvas } from "../src/lib/snowfall/snowfall-canvas";
+import type { Renderer } from "../src/lib/snowfall/types";
+
+type Listener = [target: EventTarget, type: string, listener: unknown];
+
+/**
+ * Observers jsdom lacks, tracking which ones are still observing
+ */
+const observing = new Set<object>();
+
+class FakeObserver {
+  observe(): void {
+    observing.add(this);
+  }
+
+  unobserve(): void {
+    // Nothing to release for a single target
+  }
+
+  disconnect(): void {
+    observing.delete(this);
+  }
+}
+
+const frames = new Map<number, FrameRequestCallback>();
+let nextFrame = 0;
+let listeners: Listener[] = [];
+let mutationObservers = 0;
+
+/**
+ * Record listeners added to and removed from `target`
+ */
+const trackListeners = (target: EventTarget): void => {
+  const add = target.addEventListener.bind(target);
+  const remove = target.removeEventListener.bind(target);
+
+  vi.spyOn(target, "addEventListener").mockImplementation(
+    (type, listener, options) => {
+      listeners.push([target, type, listener]);
+      add(type, listener, options);
+    }
+  );
+  vi.spyOn(target, "removeEventListener").mockImplementation(
+    (type, listener, options) => {
+      listeners = listeners.filter(
+        ([other, otherType, otherListener]) =>
+          other !== target || otherType !== type || otherListener !== listener
+      );
+      remove(type, listener, options);
+    }
+  );
+};
+
+const createRenderer = (): Renderer => ({
+  clear: vi.fn(),
+  destroy: vi.fn(),
+  render: vi.fn(),
+  resize: vi.fn(),
+  setBatching: vi.fn(),
+});
+
+/**
+ * Start a snowfall using every window and document listener it can add
+ */
+const createSnowfall = (): [SnowfallCanvas, HTMLCanvasElement] => {
+  const ledge = document.createElement("div");
+  ledge.className = "ledge";
+  const canvas = document.createElement("canvas");
+  canvas.width = 200;
+  canvas.height = 100;
+  document.body.append(ledge, canvas);
+
+  const snowfall = new SnowfallCanvas(
+    canvas,
+    {
+      accumulation: { selector: ".ledge" },
+      interaction: { mode: "repel" },
+      parallax: { source: "scroll" },
+    },
+    createRenderer()
+  );
+  snowfall.play();
+
+  return [snowfall, canvas];
+};
+
+const expectTornDown = (): void => {
+  expect(frames.size).toBe(0);
+  expect(observing.size).toBe(0);
+  expect(mutationObservers).toBe(0);
+  expect(listeners).toEqual([]);
+};
+
+beforeEach(() => {
+  observing.clear();
+  frames.clear();
+  listeners = [];
+  mutationObservers = 0;
+
+  vi.stubGlobal("IntersectionObserver", FakeObserver);
+  vi.stubGlobal("ResizeObserver", FakeObserver);
+  vi.stubGlobal("requestAnimationFrame", (callback: FrameRequestCallback) => {
+    nextFrame += 1;
+    frames.set(nextFrame, callback);
+    return nextFrame;
+  });
+  vi.stubGlobal("cancelAnimationFrame", (handle: number) => {
+    frames.delete(handle);
+  });
+
+  const query = new EventTarget();
+  trackListeners(query);
+  vi.stubGlobal("matchMedia", () => Object.assign(query, { matches: false }));
+
+  const { disconnect, observe } = MutationObserver.prototype;
+  vi.spyOn(MutationObserver.prototype, "observe").mockImplementation(function (
+    this: MutationObserver,
+    ...args
+  ) {
+    mutationObservers += 1;
+    observe.apply(this, args);
+  });
+  vi.spyOn(MutationObserver.prototype, "disconnect").mockImplementation(
+    function (this: MutationObserver) {
+      mutationObservers -= 1;
+      disconnect.apply(this);
+    }
+  );
+
+  trackListeners(window);
+  trackListeners(document);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+  document.body.replaceChildren();
+});
+
+describe("SnowfallCanvas teardown", () => {
+  it("releases everything on destroy", () => {
+    const [snowfall] = createSnowfall();
+
+    expect(frames.size).toBe(1);
+    expect(observing.size).toBe(2);
+    expect(mutationObservers).toBe(1);
+    expect(listeners.length).toBeGreaterThan(0);
+
+    snowfall.destroy();
+
+    expect(snowfall.isDestroyed).toBe(true);
+    expectTornDown();
+  });
+
+  it("destroys itself once the canvas is detached", async () => {
+    const [snowfall, canvas] = createSnowfall();
+
+    canvas.remove();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(snowfall.isDestroyed).toBe(true);
+    expectTornDown();
+  });
+
+  it("keeps running while the canvas is only moved", async () => {
+    const [snowfall, canvas] = createSnowfall();
+
+    document.body.prepend(canvas);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(snowfall.isDestroyed).toBe(false);
+    expect(frames.size).toBe(1);
+
+    snowfall.destroy();
+  });
+});
+
+describe("SnowfallCanvas image loading", () => {
+  it("stays paused when paused while waiting for images", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => undefined);
+    const canvas = document.createElement("canvas");
+    document.body.append(canvas);
+
+    const snowfall = new SnowfallCanvas(
+      canvas,
+      { imageLoading: "wait", imageUrls: ["/flake.png"] },
+      createRenderer()
+    );
+    snowfall.pause();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(frames.size).toBe(0);
+
+    snowfall.play();
+    expect(frames.size).toBe(1);
+
+    snowfall.destroy();
+  });
+});
+
+describe("SnowfallCanvas.updateConfig", () => {
+  it("switches batching on the existing renderer", () => {
+    const canvas = document.createElement("canvas");
+    document.body.append(canvas);
+    const renderer = createRenderer();
+    const snowfall = new SnowfallCanvas(canvas, {}, renderer);
+
+    snowfall.updateConfig({ batching: "paths" });
+
+    expect(renderer.setBatching).toHaveBeenCalledWith("paths");
+
+    snowfall.destroy();
+  });
+
+  it("reports a renderer change instead of ignoring it silently", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => undefined);
+    const canvas = document.createElement("canvas");
+    document.body.append(canvas);
+    const snowfall = new SnowfallCanvas(canvas, {}, createRenderer());
+
+    snowfall.updateConfig({ renderer: "2d" });
+    expect(warn).not.toHaveBeenCalled();
+
+    snowfall.updateConfig({ renderer: "webgl" });
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining("renderer:"));
+
+    snowfall.destroy();
+  });
+});
@@ -0,0 +1,16 @@
+import { describe, expect, it } from "vitest";
+import {
+  defineSnowfallElement,
+  SnowfallElement,
+} from "../src/lib/snowfall/snowfall-element";
+
+describe("defineSnowfallElement", () => {
+  it("registers the element under several tag names", () => {
+    defineSnowfallElement();
+    defineSnowfallElement("my-snow");
+    defineSnowfallElement("my-snow");
+
+    expect(document.createElement("snow-fall")).toBeInstanceOf(SnowfallElement);
+    expect(document.createElement("my-snow")).toBeInstanceOf(SnowfallElement);
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { defaultSnowflakeConfig } from "../src/lib/snowfall/config";
+import { Snowflake } from "../src/lib/snowfall/snowflake";
+import { createRandom } from "../src/lib/snowfall/utils";
+
+describe("Snowflake.update", () => {
+  it("keeps speed and wind within range on steps longer than changeFrequency", () => {
+    const config = {
+      ...defaultSnowflakeConfig,
+      changeFrequency: 20,
+      speed: [60, 180] as [number, number],
+      wind: [-30, 120] as [number, number],
+    };
+    const snowflake = new Snowflake(config, 800, 600, createRandom(1));
+
+    for (let step = 0; step < 50; step += 1) {
+      snowflake.update(800, 600, 100);
+
+      const { speed, wind } = snowflake.getParams();
+      expect(speed).toBeGreaterThanOrEqual(60);
+      expect(speed).toBeLessThanOrEqual(180);
+      expect(wind).toBeGreaterThanOrEqual(-30);
+      expect(wind).toBeLessThanOrEqual(120);
+    }
+  });
+
+  it("reports wrapping past the bottom edge", () => {
+    const config = {
+      ...defaultSnowflakeConfig,
+      speed: [600, 600] as [number, number],
+    };
+    const snowflake = new Snowflake(config, 800, 10, createRandom(1));
+    let wrapped = false;
+
+    for (let step = 0; step < 10 && !wrapped; step += 1) {
+      wrapped = snowflake.update(800, 10, 100);
+    }
+
+    expect(wrapped).toBe(true);
+    expect(snowflake.getParams().y).toBeLessThan(0);
+  });
+});
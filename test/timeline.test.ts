@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import {
+  getTimelineDuration,
+  sampleTimeline,
+} from "../src/lib/snowfall/timeline";
+import type { SnowfallTimeline } from "../src/lib/snowfall/types";
+
+const timeline: SnowfallTimeline = {
+  keyframes: [
+    { at: 0, intensity: 0.2, speed: [60, 120] },
+    { at: 1000, intensity: 1 },
+    { at: 2000, speed: [180, 240] },
+  ],
+};
+
+describe("sampleTimeline", () => {
+  it("interpolates each value between the keyframes that set it", () => {
+    const sample = sampleTimeline(timeline, 500);
+
+    expect(sample.intensity).toBeCloseTo(0.6);
+    expect(sample.speed).toEqual([90, 150]);
+    expect(sample.wind).toBeUndefined();
+  });
+
+  it("holds the first and last values outside the keyframes", () => {
+    expect(sampleTimeline(timeline, -100).intensity).toBe(0.2);
+    expect(sampleTimeline(timeline, 5000)).toEqual({
+      intensity: 1,
+      speed: [180, 240],
+      wind: undefined,
+    });
+  });
+
+  it("wraps around when the timeline loops", () => {
+    const looping = { ...timeline, loop: true };
+
+    expect(sampleTimeline(looping, 2500)).toEqual(sampleTimeline(looping, 500));
+  });
+
+  it("measures the duration up to the last keyframe", () => {
+    expect(getTimelineDuration(timeline)).toBe(2000);
+    expect(getTimelineDuration({ keyframes: [] })).toBe(0);
+  });
+});
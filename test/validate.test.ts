@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest";
+import type {
+  SnowfallActiveWindow,
+  SnowfallCanvasConfig,
+  SnowfallTimeRange,
+} from "../src/lib/snowfall/types";
+import { validateConfig } from "../src/lib/snowfall/validate";
+
+describe("validateConfig", () => {
+  it("expands single numbers into ranges and swaps inverted ranges", () => {
+    const { config, issues } = validateConfig(
+      { speed: 120, wind: [60, -30] },
+      { report: false }
+    );
+
+    expect(config.speed).toEqual([120, 120]);
+    expect(config.wind).toEqual([-30, 60]);
+    expect(issues).toEqual([
+      { message: "min 60 is greater than max -30; swapped", path: "wind" },
+    ]);
+  });
+
+  it("clamps numbers into their bounds", () => {
+    const { config, issues } = validateConfig(
+      { opacity: [0.5, 2], snowflakeCount: -10 },
+      { report: false }
+    );
+
+    expect(config.opacity).toEqual([0.5, 1]);
+    expect(config.snowflakeCount).toBe(0);
+    expect(issues.map(({ path }) => path)).toEqual([
+      "opacity[1]",
+      "snowflakeCount",
+    ]);
+  });
+
+  it("drops values that cannot be used so the defaults apply", () => {
+    const { config, issues } = validateConfig(
+      {
+        changeFrequency: 0,
+        color: "#nope",
+        renderer: "canvas" as never,
+      },
+      { report: false }
+    );
+
+    expect(config).toEqual({
+      changeFrequency: undefined,
+      color: undefined,
+      renderer: undefined,
+    });
+    expect(issues.map(({ path }) => path)).toEqual([
+      "changeFrequency",
+      "color",
+      "renderer",
+    ]);
+  });
+
+  it("reports nested paths within layers and timelines", () => {
+    const { config, issues } = validateConfig(
+      {
+        layers: [{ radius: [1, 2] }, { radius: [-1, 2] }],
+        timeline: { keyframes: [{ at: 0 }, { intensity: 0.5 } as never] },
+      },
+      { report: false }
+    );
+
+    expect(config.layers?.[1].radius).toEqual([0, 2]);
+    expect(config.timeline?.keyframes).toEqual([{ at: 0 }]);
+    expect(issues.map(({ path }) => path)).toEqual([
+      "layers[1].radius[0]",
+      "timeline.keyframes[1]",
+    ]);
+  });
+
+  it("drops invalid dates, times and time zones from an active window", () => {
+    const props: SnowfallCanvasConfig & {
+      activeWindow: SnowfallActiveWindow;
+    } = {
+      activeWindow: {
+        dates: [
+          { end: "2027-01-06", start: "2026-12-01" },
+          { end: "2026-13-45", start: "2026-12-01" },
+        ],
+        fadeMs: -1,
+        hours: { end: "23:30", start: "5pm" },
+        seasons: [{ start: "12-01" } as SnowfallTimeRange],
+        timeZone: "Mars/Olympus_Mons",
+      },
+    };
+    const { config, issues } = validateConfig(props, { report: false });
+
+    expect(config.activeWindow).toEqual({
+      dates: [{ end: "2027-01-06", start: "2026-12-01" }],
+      fadeMs: 0,
+      seasons: [],
+    });
+    expect(issues.map(({ path }) => path)).toEqual([
+      "activeWindow.dates[1].end",
+      "activeWindow.dates[1]",
+      "activeWindow.fadeMs",
+      "activeWindow.hours.start",
+      "activeWindow.hours",
+      "activeWindow.seasons[0]",
+      "activeWindow.timeZone",
+    ]);
+  });
+
+  it("keeps valid configs unchanged", () => {
+    const input = {
+      color: "#ffffff",
+      opacity: [0.2, 0.8] as [number, number],
+      snowflakeCount: 200,
+    };
+    const { config, issues } = validateConfig(input, { report: false });
+
+    expect(config).toEqual(input);
+    expect(issues).toEqual([]);
+  });
+});
@@ -0,0 +1,20 @@
+import { defineConfig } from "vite";
+
+// Standalone ESM bundle of the `<snow-fall>` custom element, served by the site
+export default defineConfig({
+  base: "./",
+  build: {
+    emptyOutDir: true,
+    lib: {
+      entry: "src/lib/snowfall/element.ts",
+      fileName: "snow-fall",
+      formats: ["es"],
+    },
+    minify: true,
+    outDir: "public/element",
+  },
+  publicDir: false,
+  worker: {
+    format: "es",
+  },
+});
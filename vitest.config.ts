@@ -0,0 +1,9 @@
+import { defineConfig } from "vitest/config";
+
+// Unit tests for the snowfall library, run against a jsdom document
+export default defineConfig({
+  test: {
+    environment: "jsdom",
+    include: ["test/**/*.test.ts"],
+  },
+});